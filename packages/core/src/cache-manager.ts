@@ -3,40 +3,81 @@
  * invalidation and query enhancements.
  */
 
+import type { IStorageAdapter } from './storage/base'
 import type {
   BatchOptions,
   BatchResult,
+  CacheChange,
+  CacheChangeType,
+  CacheClock,
   CacheError,
   CacheEvent,
   CacheEventListener,
   CacheItem,
+  CacheKey,
+  CacheLoader,
+  CacheLookup,
+  CacheMigrationDropReason,
+  CacheMigrationReport,
+  CacheMigrations,
   CacheOptions,
   CachePlugin,
   CachePluginContext,
+  CacheSnapshot,
   CacheStats,
+  CacheTransaction,
+  CacheWatchListener,
   EvictionReason,
+  GetOrSetOptions,
   ICacheStrategy,
+  ImportSnapshotOptions,
+  ImportSnapshotResult,
+  InvalidateOptions,
+  InvalidatePatternOptions,
   InvalidatePredicate,
+  InvalidateTagOptions,
+  RegisterLoaderOptions,
   SetOptions,
   StorageType,
+  StrategyFactory,
+  WatchOptions,
 } from './types'
-import { CacheErrorCode, CacheEventType, CacheStrategy } from './types'
-import { FIFOCache } from './strategies/fifo'
-import { LFUCache } from './strategies/lfu'
-import { LRUCache } from './strategies/lru'
-import { TTLCache } from './strategies/ttl'
+import { SNAPSHOT } from './constants'
+import { CacheNamespace } from './namespace'
 import { CacheQueryClient } from './query/client'
+import { createJSONSerializer } from './serializers/json'
+import { LocalStorageAdapter } from './storage/local-storage'
+import { SessionStorageAdapter } from './storage/session-storage'
+import { getStrategyFactory } from './strategies/registry'
+import { CacheErrorCode, CacheEventType, CacheStrategy } from './types'
+import { isCacheKey } from './utils/cache-key'
+import { systemClock } from './utils/clock'
+import { resolveExpiresAt } from './utils/expiry'
+import { ExpiryHeap } from './utils/expiry-heap'
+import { estimateCacheItemSize, MemoryTracker } from './utils/memory'
+import { createPatternMatcher, getPatternPrefix, isDescendantPath, PATTERN_SEPARATOR } from './utils/pattern'
+import { PrefixIndex } from './utils/prefix-index'
 
 interface InternalOptions<T> {
-  strategy: CacheStrategy
+  strategy: CacheStrategy | string | StrategyFactory<T>
   maxSize: number
+  maxMemory?: number
+  maxEntrySize?: number
   defaultTTL?: number
+  negativeTTL?: number
+  ttlJitter?: number
+  staleIfError?: number
+  defaultSliding: boolean
+  refreshAhead: number
   enableStats: boolean
   enablePersistence: boolean
   storageType: StorageType
   storagePrefix: string
+  storage?: IStorageAdapter
   cleanupInterval: number
   namespace?: string
+  schemaVersion?: number | Record<string, number>
+  migrations?: CacheMigrations<T> | Record<string, CacheMigrations<T>>
   plugins: CachePlugin<T>[]
   onEvict?: (key: string, value: T, reason: EvictionReason) => void
   onExpire?: (key: string, value: T) => void
@@ -47,49 +88,231 @@ interface EntryMetadata {
   tags: string[]
   namespace?: string
   priority?: number
+  pinned?: boolean
+  sliding?: boolean
   ttl?: number
   expiresAt?: number
+  staleTtl?: number
+  freshUntil?: number
+  maxExpiresAt?: number
+  version?: number
+  dependencies?: string[]
+  staleIfError?: number
+  /**
+   * Absolute deadline or policy the entry was written with, reapplied when
+   * it is refreshed ahead so calendar expiry keeps its boundary.
+   */
+  deadline?: SetOptions['expiresAt']
+  /**
+   * Read since the last write; the maintenance pass only refreshes these.
+   */
+  read?: boolean
 }
 
-interface PersistedCacheEntry<T> {
-  value: T
-  ttl?: number
-  expiresAt?: number
-  tags?: string[]
-  namespace?: string
-  priority?: number
+interface StaleShadow<T> {
+  item: CacheItem<T>
+  staleUntil: number
+}
+
+interface PendingHydration {
+  touched: Set<string>
+  cleared: boolean
+}
+
+interface JournalEntry<T> {
+  item: CacheItem<T>
+  metadata: EntryMetadata
+  /** Key that was evicted right after this one, to restore its slot. */
+  before?: string
+}
+
+interface Watcher<T> {
+  matches: (key: string) => boolean
+  listener: CacheWatchListener<T>
+}
+
+interface LoaderEntry<T> {
+  matches: (key: string) => boolean
+  loader: CacheLoader<T>
+  refreshAhead: number
+}
+
+const WATCHED_EVENTS: Partial<Record<CacheEventType, CacheChangeType>> = {
+  [CacheEventType.SET]: 'set',
+  [CacheEventType.DELETE]: 'delete',
+  [CacheEventType.EXPIRE]: 'expire',
+  [CacheEventType.EVICT]: 'evict',
+}
+
+type NamespaceCounters = Pick<CacheStats, 'totalRequests' | 'hits' | 'misses' | 'evictions' | 'expirations' | 'negativeHits'>
+
+type StagedOperation<T> = { type: 'set', value: T, options?: SetOptions } | { type: 'delete' }
+
+function createNamespaceCounters(): NamespaceCounters {
+  return { totalRequests: 0, hits: 0, misses: 0, evictions: 0, expirations: 0, negativeHits: 0 }
+}
+
+/**
+ * Key defaults sit under explicit options; a bare number is a ttl.
+ */
+function withKeyDefaults<O extends SetOptions>(key: CacheKey, input?: number | O): O {
+  return { ...key.defaults, ...(typeof input === 'number' ? { ttl: input } : input) } as O
+}
+
+/**
+ * Spread a ttl by a random amount in `[0, jitter)`; a jitter below 1 is a
+ * fraction of the ttl.
+ */
+function jitterTTL(ttl: number, jitter: number): number {
+  const spread = jitter < 1 ? ttl * jitter : jitter
+  return ttl + Math.floor(Math.random() * spread)
+}
+
+/**
+ * Soft ttl that reproduces a saved `freshUntil` when the entry is written
+ * again with `ttl`.
+ */
+function restoredStaleTtl(item: CacheItem<unknown>, ttl: number | undefined, now: number): number | undefined {
+  if (item.freshUntil === undefined || item.freshUntil === item.expiresAt) {
+    return undefined
+  }
+  if (item.expiresAt === undefined || ttl === undefined) {
+    return Math.max(0, item.freshUntil - now)
+  }
+  return Math.max(0, ttl - (item.expiresAt - item.freshUntil))
+}
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return !!value && typeof (value as PromiseLike<T>).then === 'function'
+}
+
+function rebaseItem<T>(item: CacheItem<T>, offset: number): CacheItem<T> {
+  return {
+    ...item,
+    createdAt: item.createdAt + offset,
+    lastAccessedAt: item.lastAccessedAt + offset,
+    expiresAt: item.expiresAt !== undefined ? item.expiresAt + offset : undefined,
+    freshUntil: item.freshUntil !== undefined ? item.freshUntil + offset : undefined,
+    maxExpiresAt: item.maxExpiresAt !== undefined ? item.maxExpiresAt + offset : undefined,
+    deadline: item.deadline !== undefined ? item.deadline + offset : undefined,
+  }
+}
+
+class StagedTransaction<T> implements CacheTransaction<T> {
+  readonly operations = new Map<string, StagedOperation<T>>()
+  closed = false
+
+  constructor(
+    private readonly cache: CacheManager<T>,
+    private readonly validate: (key: string) => void,
+  ) {}
+
+  set(key: string, value: T, ttlOrOptions?: number | SetOptions): void {
+    this.stage(key, {
+      type: 'set',
+      value,
+      options: typeof ttlOrOptions === 'number' ? { ttl: ttlOrOptions } : ttlOrOptions,
+    })
+  }
+
+  delete(key: string): boolean {
+    const existed = this.has(key)
+    this.stage(key, { type: 'delete' })
+    return existed
+  }
+
+  get(key: string): T | undefined {
+    const operation = this.operations.get(key)
+    if (operation) {
+      return operation.type === 'set' ? operation.value : undefined
+    }
+    return this.cache.get(key)
+  }
+
+  has(key: string): boolean {
+    const operation = this.operations.get(key)
+    if (operation) {
+      return operation.type === 'set'
+    }
+    return this.cache.has(key)
+  }
+
+  private stage(key: string, operation: StagedOperation<T>): void {
+    this.validate(key)
+    // Re-staging moves the key to the end so commit order follows the last write.
+    this.operations.delete(key)
+    this.operations.set(key, operation)
+  }
 }
 
 export class CacheManager<T = any> {
   readonly query: CacheQueryClient
+  readonly clock: CacheClock
 
   private strategy: ICacheStrategy<T>
   private options: InternalOptions<T>
   private listeners: Map<CacheEventType, Set<CacheEventListener<T>>>
   private stats: CacheStats
-  private cleanupTimer?: ReturnType<typeof setInterval>
+  private cleanupTimer?: ReturnType<typeof setTimeout>
+  private cleanupDeadline?: number
+  private nextMaintenance = 0
+  private autoCleanup = false
+  private persistence: IStorageAdapter | null = null
+  private hydration: Promise<void> = Promise.resolve()
+  private pendingHydration?: PendingHydration
+  private restoring = false
+  private memory = new MemoryTracker()
+  private journal?: Map<string, JournalEntry<T> | null>
+  private deferred?: Array<() => void>
 
   private metadata = new Map<string, EntryMetadata>()
+  private expiryIndex = new ExpiryHeap()
+  private readonly isCurrentExpiry = (key: string, expiresAt: number) => this.metadata.get(key)?.expiresAt === expiresAt
   private tagIndex = new Map<string, Set<string>>()
   private namespaceIndex = new Map<string, Set<string>>()
+  private priorityIndex = new Map<number, Set<string>>()
+  private dependents = new Map<string, Set<string>>()
+  private keyPaths = new PrefixIndex()
+  private tagPaths = new PrefixIndex()
+  private namespacePaths = new PrefixIndex()
+  private namespaces = new Map<string, CacheNamespace<T>>()
+  private namespaceCounters = new Map<string, NamespaceCounters>()
+  private watchers = new Set<Watcher<T>>()
+  private pendingChanges = new Map<string, CacheChange<T>>()
+  private loaders: LoaderEntry<T>[] = []
+  private refreshing = new Map<string, Promise<void>>()
+  private negatives = new Map<string, number | undefined>()
+  private staleShadows = new Map<string, StaleShadow<T>>()
 
   constructor(options: CacheOptions<T> = {}) {
+    this.clock = options.clock ?? systemClock
     this.options = {
       strategy: options.strategy ?? CacheStrategy.LRU,
       maxSize: options.maxSize ?? 100,
+      maxMemory: options.maxMemory,
+      maxEntrySize: options.maxEntrySize,
       defaultTTL: options.defaultTTL,
+      negativeTTL: options.negativeTTL,
+      ttlJitter: options.ttlJitter,
+      staleIfError: options.staleIfError,
+      defaultSliding: options.defaultSliding ?? false,
+      refreshAhead: options.refreshAhead ?? 0.8,
       enableStats: options.enableStats ?? true,
-      enablePersistence: options.enablePersistence ?? false,
+      enablePersistence: options.enablePersistence ?? options.storage !== undefined,
       storageType: options.storageType ?? 'localStorage',
       storagePrefix: options.storagePrefix ?? 'cache:',
+      storage: options.storage,
       cleanupInterval: options.cleanupInterval ?? 60_000,
       namespace: options.namespace,
+      schemaVersion: options.schemaVersion,
+      migrations: options.migrations,
       plugins: [...(options.plugins ?? [])],
       onEvict: options.onEvict,
       onExpire: options.onExpire,
       onError: options.onError,
     }
 
+    this.assertRefreshAhead(this.options.refreshAhead)
     this.strategy = this.createStrategy(this.options.strategy)
     this.listeners = new Map()
     this.stats = {
@@ -101,11 +324,13 @@ export class CacheManager<T = any> {
       hitRate: 0,
       evictions: 0,
       expirations: 0,
+      negativeHits: 0,
       memoryUsage: 0,
-      lastUpdated: Date.now(),
+      maxMemory: this.options.maxMemory,
+      lastUpdated: this.clock.now(),
     }
 
-    this.query = new CacheQueryClient(this)
+    this.query = new CacheQueryClient(this, this.clock)
 
     this.initPlugins()
 
@@ -114,11 +339,26 @@ export class CacheManager<T = any> {
     }
 
     if (this.options.enablePersistence) {
+      this.persistence = this.createPersistence()
       this.loadFromStorage()
     }
   }
 
-  get(key: string): T | undefined {
+  /**
+   * Resolves once persisted entries have been hydrated. Synchronous backends
+   * hydrate inside the constructor, so this is already settled for them.
+   */
+  ready(): Promise<void> {
+    return this.hydration
+  }
+
+  get<V>(key: CacheKey<V>): V | undefined
+  get(key: string): T | undefined
+  get(key: string | CacheKey): T | undefined {
+    if (isCacheKey(key)) {
+      return this.get(key.key)
+    }
+
     this.assertKey(key)
 
     this.ensureNotExpired(key)
@@ -139,6 +379,23 @@ export class CacheManager<T = any> {
       }
     }
 
+    if (resolvedKey !== key) {
+      this.ensureNotExpired(resolvedKey)
+    }
+
+    if (this.isMissing(resolvedKey)) {
+      if (this.options.enableStats) {
+        this.stats.totalRequests += 1
+        this.stats.negativeHits += 1
+        this.countNamespaceStat(resolvedKey, 'totalRequests')
+        this.countNamespaceStat(resolvedKey, 'negativeHits')
+        this.updateHitRate()
+        this.stats.lastUpdated = this.clock.now()
+      }
+      this.emit(CacheEventType.GET, { key: resolvedKey, metadata: { fromCache: true, missing: true } })
+      return undefined
+    }
+
     let value = this.strategy.get(resolvedKey)
 
     // Guard against strategy-level expiration and remove stale metadata.
@@ -146,6 +403,15 @@ export class CacheManager<T = any> {
       this.handleExpiredWithoutValue(resolvedKey)
     }
 
+    if (value !== undefined) {
+      const metadata = this.metadata.get(resolvedKey)
+      if (metadata) {
+        metadata.read = true
+      }
+      this.slideExpiry(resolvedKey)
+      this.refreshAhead(resolvedKey)
+    }
+
     for (const plugin of this.options.plugins) {
       if (!plugin.afterGet) {
         continue
@@ -163,16 +429,19 @@ export class CacheManager<T = any> {
 
     if (this.options.enableStats) {
       this.stats.totalRequests += 1
+      this.countNamespaceStat(resolvedKey, 'totalRequests')
       if (value !== undefined) {
         this.stats.hits += 1
+        this.countNamespaceStat(resolvedKey, 'hits')
         this.emit(CacheEventType.HIT, { key: resolvedKey, value })
       }
       else {
         this.stats.misses += 1
+        this.countNamespaceStat(resolvedKey, 'misses')
         this.emit(CacheEventType.MISS, { key: resolvedKey })
       }
       this.updateHitRate()
-      this.stats.lastUpdated = Date.now()
+      this.stats.lastUpdated = this.clock.now()
     }
 
     this.emit(CacheEventType.GET, {
@@ -180,17 +449,25 @@ export class CacheManager<T = any> {
       value,
       metadata: {
         fromCache: value !== undefined,
+        stale: value !== undefined ? this.isStale(resolvedKey) : undefined,
       },
     })
 
     return value
   }
 
-  set(key: string, value: T, ttl?: number): void
-  set(key: string, value: T, options?: SetOptions): void
-  set(key: string, value: T, ttlOrOptions?: number | SetOptions): void {
+  set<V>(key: CacheKey<V>, value: V, ttlOrOptions?: number | SetOptions): void
+  set(key: string, value: T, ttlOrOptions?: number | SetOptions): void
+  set(key: string | CacheKey, value: T, ttlOrOptions?: number | SetOptions): void {
+    if (isCacheKey(key)) {
+      this.set(key.key, value, withKeyDefaults(key, ttlOrOptions))
+      return
+    }
+
     this.assertKey(key)
 
+    // Restores pass their resolved timestamp, which is not a deadline of its own.
+    let deadline = typeof ttlOrOptions === 'object' && !this.restoring ? ttlOrOptions.expiresAt : undefined
     let setInput = {
       key,
       value,
@@ -204,6 +481,7 @@ export class CacheManager<T = any> {
       try {
         const transformed = plugin.beforeSet(setInput.key, setInput.value, setInput.options)
         if (transformed) {
+          deadline = transformed.options?.expiresAt ?? deadline
           setInput = {
             key: transformed.key,
             value: transformed.value,
@@ -218,10 +496,26 @@ export class CacheManager<T = any> {
 
     const { ttl: resolvedTTL } = setInput.options
     this.assertTTL(resolvedTTL)
+    this.assertTTL(setInput.options.maxLifetime)
+    this.assertTTL(setInput.options.staleTtl)
+
+    const entrySize = estimateCacheItemSize(setInput.key, setInput.value)
+    this.assertEntrySize(setInput.key, entrySize)
+
+    if (!this.restoring) {
+      this.pendingHydration?.touched.add(setInput.key)
+    }
+
+    this.negatives.delete(setInput.key)
+    this.staleShadows.delete(setInput.key)
+    this.recordPrior(setInput.key)
+    this.reserveCapacity(setInput.key)
+    this.reserveMemory(setInput.key, entrySize)
 
-    const evicted = (this.strategy as any).set(setInput.key, setInput.value, resolvedTTL) as CacheItem<T> | undefined
+    const evicted = this.strategy.set(setInput.key, setInput.value, resolvedTTL)
 
-    this.setMetadata(setInput.key, setInput.options)
+    this.setMetadata(setInput.key, setInput.options, deadline)
+    this.memory.track(setInput.key, setInput.value, undefined, entrySize)
 
     if (evicted) {
       this.handleEviction(evicted)
@@ -230,7 +524,7 @@ export class CacheManager<T = any> {
     if (this.options.enableStats) {
       this.stats.size = this.strategy.size
       this.updateMemoryUsage()
-      this.stats.lastUpdated = Date.now()
+      this.stats.lastUpdated = this.clock.now()
     }
 
     this.emit(CacheEventType.SET, {
@@ -241,10 +535,12 @@ export class CacheManager<T = any> {
         tags: setInput.options.tags,
         namespace: setInput.options.namespace,
         priority: setInput.options.priority,
+        pinned: setInput.options.pinned,
+        sliding: setInput.options.sliding,
       },
     })
 
-    if (this.options.enablePersistence) {
+    if (this.options.enablePersistence && !this.restoring) {
       this.saveToStorage(setInput.key)
     }
 
@@ -261,7 +557,11 @@ export class CacheManager<T = any> {
     }
   }
 
-  delete(key: string): boolean {
+  delete(key: string | CacheKey): boolean {
+    if (isCacheKey(key)) {
+      return this.delete(key.key)
+    }
+
     this.assertKey(key)
 
     let resolvedKey = key
@@ -280,6 +580,8 @@ export class CacheManager<T = any> {
       }
     }
 
+    this.pendingHydration?.touched.add(resolvedKey)
+    this.negatives.delete(resolvedKey)
     const success = this.deleteInternal(resolvedKey, 'manual', true)
 
     for (const plugin of this.options.plugins) {
@@ -297,7 +599,11 @@ export class CacheManager<T = any> {
     return success
   }
 
-  has(key: string): boolean {
+  has(key: string | CacheKey): boolean {
+    if (isCacheKey(key)) {
+      return this.has(key.key)
+    }
+
     this.assertKey(key)
     if (this.ensureNotExpired(key)) {
       return false
@@ -305,6 +611,24 @@ export class CacheManager<T = any> {
     return this.strategy.has(key)
   }
 
+  /**
+   * Reads a value without counting a hit or miss, running plugins, sliding
+   * the expiry or touching the eviction order.
+   */
+  peek<V>(key: CacheKey<V>): V | undefined
+  peek(key: string): T | undefined
+  peek(key: string | CacheKey): T | undefined {
+    if (isCacheKey(key)) {
+      return this.peek(key.key)
+    }
+
+    this.assertKey(key)
+    if (this.ensureNotExpired(key)) {
+      return undefined
+    }
+    return this.strategy.peek(key)
+  }
+
   clear(): void {
     for (const plugin of this.options.plugins) {
       if (!plugin.beforeClear) {
@@ -318,18 +642,37 @@ export class CacheManager<T = any> {
       }
     }
 
+    const cleared = this.watchers.size > 0 ? this.strategy.entries() : []
+
     this.strategy.clear()
     this.metadata.clear()
     this.tagIndex.clear()
     this.namespaceIndex.clear()
+    this.priorityIndex.clear()
+    this.dependents.clear()
+    this.refreshing.clear()
+    this.negatives.clear()
+    this.staleShadows.clear()
+    this.expiryIndex.clear()
+    this.keyPaths.clear()
+    this.tagPaths.clear()
+    this.namespacePaths.clear()
+    this.memory.clear()
+
+    if (this.pendingHydration) {
+      this.pendingHydration.cleared = true
+    }
 
     if (this.options.enableStats) {
       this.stats.size = 0
       this.stats.memoryUsage = 0
-      this.stats.lastUpdated = Date.now()
+      this.stats.lastUpdated = this.clock.now()
     }
 
     this.emit(CacheEventType.CLEAR, {})
+    for (const [key, value] of cleared) {
+      this.queueChange({ key, type: 'delete', value })
+    }
 
     if (this.options.enablePersistence) {
       this.clearStorage()
@@ -348,30 +691,270 @@ export class CacheManager<T = any> {
     }
   }
 
-  invalidateByTag(tag: string): number {
-    const keys = Array.from(this.tagIndex.get(tag) ?? [])
-    let removed = 0
+  /**
+   * Returns the cached value or loads, stores and returns it. Concurrent calls
+   * for the same key share one in-flight loader; failed loads are not cached.
+   */
+  async getOrSet<V>(key: CacheKey<V>, loader: () => V | Promise<V>, options?: number | GetOrSetOptions): Promise<V>
+  async getOrSet(key: string, loader: () => T | Promise<T>, options?: number | GetOrSetOptions): Promise<T>
+  async getOrSet(key: string | CacheKey, loader: () => T | Promise<T>, options?: number | GetOrSetOptions): Promise<T> {
+    if (isCacheKey(key)) {
+      return this.getOrSet(key.key, loader, withKeyDefaults(key, options))
+    }
 
-    for (const key of keys) {
-      if (this.delete(key)) {
-        removed += 1
+    const cached = this.get(key)
+    if (cached !== undefined || this.isMissing(key)) {
+      return cached as T
+    }
+
+    const setOptions = typeof options === 'number' ? { ttl: options } : options
+    const result = await this.query.fetch<T>({
+      ...setOptions,
+      key,
+      fetcher: async () => loader(),
+      force: true,
+      dedupe: true,
+    })
+
+    return result.data
+  }
+
+  getOrSetSync<V>(key: CacheKey<V>, loader: () => V, options?: number | GetOrSetOptions): V
+  getOrSetSync(key: string, loader: () => T, options?: number | GetOrSetOptions): T
+  getOrSetSync(key: string | CacheKey, loader: () => T, options?: number | GetOrSetOptions): T {
+    if (isCacheKey(key)) {
+      return this.getOrSetSync(key.key, loader, withKeyDefaults(key, options))
+    }
+
+    const cached = this.get(key)
+    if (cached !== undefined || this.isMissing(key)) {
+      return cached as T
+    }
+
+    const { negativeTTL, ...setOptions } = typeof options === 'number' ? { ttl: options } as GetOrSetOptions : options ?? {}
+    const value = loader()
+    if (value == null && negativeTTL !== undefined) {
+      this.setMissing(key, negativeTTL)
+    }
+    else if (value !== undefined) {
+      this.set(key, value, setOptions)
+    }
+
+    return value
+  }
+
+  /**
+   * Records that `key` is known to be absent. Reads return `undefined`
+   * without counting a miss until the negative entry expires or the key is
+   * written. Negative entries live in memory only, capped at `maxSize`.
+   */
+  setMissing(key: string | CacheKey, ttlOrOptions?: number | { ttl?: number }): void {
+    const name = isCacheKey(key) ? key.key : key
+    this.assertKey(name)
+
+    const ttl = (typeof ttlOrOptions === 'number' ? ttlOrOptions : ttlOrOptions?.ttl)
+      ?? this.options.negativeTTL
+      ?? this.options.defaultTTL
+    this.assertTTL(ttl)
+
+    if (this.has(name)) {
+      this.delete(name)
+    }
+
+    this.negatives.delete(name)
+    this.negatives.set(name, ttl !== undefined ? this.clock.now() + ttl : undefined)
+    if (this.negatives.size > this.options.maxSize) {
+      this.negatives.delete(this.negatives.keys().next().value!)
+    }
+  }
+
+  isMissing(key: string | CacheKey): boolean {
+    const name = isCacheKey(key) ? key.key : key
+    if (!this.negatives.has(name)) {
+      return false
+    }
+
+    const expiresAt = this.negatives.get(name)
+    if (expiresAt !== undefined && expiresAt <= this.clock.now()) {
+      this.negatives.delete(name)
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Reads a key and tells a known absence apart from an unknown key.
+   */
+  lookup<V>(key: CacheKey<V>): CacheLookup<V>
+  lookup(key: string): CacheLookup<T>
+  lookup(key: string | CacheKey): CacheLookup<T> {
+    const name = isCacheKey(key) ? key.key : key
+    const value = this.get(name)
+    if (value !== undefined) {
+      return { status: 'hit', value, stale: this.isStale(name) }
+    }
+    return this.isMissing(name) ? { status: 'missing' } : { status: 'miss' }
+  }
+
+  /**
+   * Returns an entry written with `staleIfError`, live or expired but still
+   * inside its window. Used as the fallback when a reload fails.
+   */
+  getStaleItem<V>(key: CacheKey<V>): CacheItem<V> | undefined
+  getStaleItem(key: string): CacheItem<T> | undefined
+  getStaleItem(key: string | CacheKey): CacheItem<T> | undefined {
+    const name = isCacheKey(key) ? key.key : key
+    const item = this.getItem(name)
+    if (item) {
+      return item.staleIfError ? item : undefined
+    }
+
+    const shadow = this.staleShadows.get(name)
+    if (!shadow) {
+      return undefined
+    }
+    if (shadow.staleUntil <= this.clock.now()) {
+      this.staleShadows.delete(name)
+      return undefined
+    }
+    return { ...shadow.item }
+  }
+
+  /**
+   * Stages writes and applies them atomically. Plugin hooks run on commit and
+   * any hook failure rolls every change back; events, `onEvict`/`onExpire`
+   * and persistence are only flushed once the commit succeeds.
+   */
+  transaction<R>(callback: (tx: CacheTransaction<T>) => Promise<R>): Promise<R>
+  transaction<R>(callback: (tx: CacheTransaction<T>) => R): R
+  transaction<R>(callback: (tx: CacheTransaction<T>) => R | Promise<R>): R | Promise<R> {
+    const tx: StagedTransaction<T> = new StagedTransaction<T>(this, (key) => {
+      if (tx.closed) {
+        const error = this.createCacheError('Transaction has already finished.', CacheErrorCode.TRANSACTION_FAILED, key)
+        this.handleError(error, key)
+        throw error
       }
+      this.assertKey(key)
+    })
+
+    let result: R | Promise<R>
+    try {
+      result = callback(tx)
+    }
+    catch (error) {
+      tx.closed = true
+      throw error
     }
 
-    return removed
+    if (isPromiseLike<R>(result)) {
+      return Promise.resolve(result).then(
+        (value) => {
+          this.commit(tx)
+          return value
+        },
+        (error) => {
+          tx.closed = true
+          throw error
+        },
+      )
+    }
+
+    this.commit(tx)
+    return result
   }
 
-  invalidateByNamespace(namespace: string): number {
-    const keys = Array.from(this.namespaceIndex.get(namespace) ?? [])
-    let removed = 0
+  /**
+   * Dumps live entries with their metadata, ordered so that the first entry
+   * would be evicted first. Values are included as-is.
+   */
+  exportSnapshot(): CacheSnapshot<T> {
+    this.cleanupExpiredKeys()
 
-    for (const key of keys) {
-      if (this.delete(key)) {
-        removed += 1
+    const entries: Array<CacheItem<T>> = []
+    for (const key of this.strategy.evictionOrder?.() ?? this.strategy.keys()) {
+      const item = this.readItem(key)
+      if (item) {
+        entries.push(item)
       }
     }
 
-    return removed
+    return {
+      format: SNAPSHOT.FORMAT,
+      version: SNAPSHOT.VERSION,
+      exportedAt: this.clock.now(),
+      strategy: typeof this.options.strategy === 'function' ? 'custom' : this.options.strategy,
+      entries,
+    }
+  }
+
+  importSnapshot(snapshot: CacheSnapshot<T>, options: ImportSnapshotOptions = {}): ImportSnapshotResult {
+    this.assertSnapshot(snapshot)
+
+    if (options.mode === 'replace') {
+      this.clear()
+    }
+
+    const now = this.clock.now()
+    const offset = options.rebaseTimestamps ? now - snapshot.exportedAt : 0
+    const result: ImportSnapshotResult = { imported: 0, skipped: 0 }
+
+    for (const entry of snapshot.entries) {
+      const rebased = offset === 0 ? entry : rebaseItem(entry, offset)
+      const item = rebased.expiresAt !== undefined && rebased.expiresAt <= now
+        ? null
+        : this.migrateItem(rebased.key, rebased)
+      if (!item) {
+        result.skipped += 1
+        continue
+      }
+
+      try {
+        this.importEntry(item)
+        result.imported += 1
+      }
+      catch {
+        // `set` has already reported the failure through onError.
+        result.skipped += 1
+      }
+    }
+
+    return result
+  }
+
+  invalidateByTag(tag: string, options: InvalidateTagOptions = {}): number {
+    const tags = options.descendants ? this.tagPaths.descendants(tag) : [tag]
+    const keys = [...this.collectIndexedKeys(this.tagIndex, tags)]
+    const { namespace } = options
+    if (namespace === undefined) {
+      return this.invalidateKeys(keys)
+    }
+
+    return this.invalidateKeys(keys.filter((key) => {
+      const owner = this.metadata.get(key)?.namespace
+      return owner !== undefined && isDescendantPath(owner, namespace)
+    }))
+  }
+
+  invalidateByNamespace(namespace: string, options: InvalidateOptions = {}): number {
+    const namespaces = options.descendants ? this.namespacePaths.descendants(namespace) : [namespace]
+    return this.invalidateKeys(this.collectIndexedKeys(this.namespaceIndex, namespaces))
+  }
+
+  /**
+   * Invalidates keys, tags or namespaces matching a glob (`*` stays within one
+   * `:` segment, `**` crosses segments, `?` is one character) or a RegExp.
+   * Globs only visit paths under their literal prefix.
+   */
+  invalidateByPattern(pattern: string | RegExp, options: InvalidatePatternOptions = {}): number {
+    const scope = options.scope ?? 'key'
+
+    if (scope === 'key') {
+      return this.invalidateKeys(this.matchPaths(this.keyPaths, pattern))
+    }
+
+    const index = scope === 'tag' ? this.tagIndex : this.namespaceIndex
+    const paths = scope === 'tag' ? this.tagPaths : this.namespacePaths
+    return this.invalidateKeys(this.collectIndexedKeys(index, this.matchPaths(paths, pattern)))
   }
 
   invalidateWhere(predicate: InvalidatePredicate<T>): number {
@@ -379,7 +962,7 @@ export class CacheManager<T = any> {
     let removed = 0
 
     for (const key of keys) {
-      const item = this.getItem(key)
+      const item = this.readItem(key)
       if (item && predicate(item)) {
         if (this.delete(key)) {
           removed += 1
@@ -410,29 +993,62 @@ export class CacheManager<T = any> {
     return this.strategy.entries()
   }
 
-  getItem(key: string): CacheItem<T> | undefined {
+  /**
+   * Returns a view bound to `name`: keys are stored as `name:key`, so views
+   * never collide, and nested names (`app:users`) share counters with their
+   * parents. Views are cached, so repeated calls return the same instance.
+   */
+  namespace(name: string): CacheNamespace<T> {
+    this.assertKey(name)
+
+    let view = this.namespaces.get(name)
+    if (view) {
+      return view
+    }
+
+    const separator = name.lastIndexOf(PATTERN_SEPARATOR)
+    if (separator > 0) {
+      this.namespace(name.slice(0, separator))
+    }
+
+    view = new CacheNamespace<T>(this, name)
+    this.namespaces.set(name, view)
+    this.namespaceCounters.set(name, createNamespaceCounters())
+    return view
+  }
+
+  /**
+   * Keys written with `namespace` (and, with `descendants`, its children).
+   */
+  namespaceKeys(namespace: string, options: InvalidateOptions = {}): string[] {
+    const namespaces = options.descendants ? this.namespacePaths.descendants(namespace) : [namespace]
+    const keys: string[] = []
+    for (const key of this.collectIndexedKeys(this.namespaceIndex, namespaces)) {
+      if (!this.ensureNotExpired(key)) {
+        keys.push(key)
+      }
+    }
+    return keys
+  }
+
+  getItem<V>(key: CacheKey<V>): CacheItem<V> | undefined
+  getItem(key: string): CacheItem<T> | undefined
+  getItem(key: string | CacheKey): CacheItem<T> | undefined {
+    if (isCacheKey(key)) {
+      return this.getItem(key.key)
+    }
+
     this.assertKey(key)
 
     if (this.ensureNotExpired(key)) {
       return undefined
     }
 
-    const item = this.strategy.getItem(key)
-    if (!item) {
-      this.removeMetadata(key)
-      return undefined
+    if (this.strategy.has(key)) {
+      this.slideExpiry(key)
     }
 
-    const metadata = this.metadata.get(key)
-
-    return {
-      ...item,
-      tags: metadata?.tags,
-      namespace: metadata?.namespace,
-      priority: metadata?.priority,
-      ttl: item.ttl ?? metadata?.ttl,
-      expiresAt: item.expiresAt ?? metadata?.expiresAt,
-    }
+    return this.readItem(key)
   }
 
   mget(keys: string[]): Map<string, T> {
@@ -456,9 +1072,12 @@ export class CacheManager<T = any> {
     const {
       continueOnError = true,
       ttl,
+      expiresAt,
+      ttlJitter,
       tags,
       namespace,
       priority,
+      pinned,
       onProgress,
     } = options
 
@@ -468,9 +1087,12 @@ export class CacheManager<T = any> {
       try {
         this.set(key, value, {
           ttl,
+          expiresAt,
+          ttlJitter,
           tags,
           namespace,
           priority,
+          pinned,
         })
         succeeded.push(key)
       }
@@ -542,11 +1164,37 @@ export class CacheManager<T = any> {
       ...this.stats,
       size: this.strategy.size,
       maxSize: this.options.maxSize,
-      lastUpdated: Date.now(),
+      memoryUsage: this.memory.total,
+      maxMemory: this.options.maxMemory,
+      lastUpdated: this.clock.now(),
+    }
+  }
+
+  /**
+   * Stats for a namespace and its children. Counters are only collected once
+   * a view for the namespace has been created.
+   */
+  getNamespaceStats(namespace: string): CacheStats {
+    const keys = this.namespaceKeys(namespace, { descendants: true })
+    const counters = this.namespaceCounters.get(namespace)
+      ?? createNamespaceCounters()
+
+    return {
+      ...counters,
+      hitRate: counters.totalRequests === 0 ? 0 : counters.hits / counters.totalRequests,
+      size: keys.length,
+      maxSize: this.options.maxSize,
+      memoryUsage: keys.reduce((total, key) => total + (this.memory.getSize(key) ?? 0), 0),
+      maxMemory: this.options.maxMemory,
+      lastUpdated: this.clock.now(),
     }
   }
 
   resetStats(): void {
+    for (const name of this.namespaceCounters.keys()) {
+      this.namespaceCounters.set(name, createNamespaceCounters())
+    }
+
     this.stats = {
       size: this.strategy.size,
       maxSize: this.options.maxSize,
@@ -556,13 +1204,64 @@ export class CacheManager<T = any> {
       hitRate: 0,
       evictions: 0,
       expirations: 0,
-      memoryUsage: this.stats.memoryUsage,
-      lastUpdated: Date.now(),
+      negativeHits: 0,
+      memoryUsage: this.memory.total,
+      maxMemory: this.options.maxMemory,
+      lastUpdated: this.clock.now(),
     }
   }
 
   cleanup(): number {
-    return this.cleanupExpiredKeys()
+    const count = this.cleanupExpiredKeys()
+    this.sweepShadows()
+    return count
+  }
+
+  /**
+   * Swaps the eviction strategy, carrying live entries over in their current
+   * eviction order with their timestamps and access counts. Accepts the same
+   * values as `CacheOptions.strategy`.
+   */
+  setStrategy(strategy: CacheStrategy | string | StrategyFactory<T>): void {
+    if (strategy === this.options.strategy) {
+      return
+    }
+
+    const next = this.createStrategy(strategy)
+    this.options.strategy = strategy
+    this.migrateStrategy(next)
+  }
+
+  /**
+   * Changes `maxSize`. Shrinking evicts the overflow with reason `capacity`,
+   * honouring priorities and pins; it throws `CAPACITY_EXCEEDED` up front
+   * when more entries are pinned than the new size allows.
+   */
+  resize(maxSize: number): void {
+    if (!Number.isInteger(maxSize) || maxSize < 1) {
+      const error = this.createCacheError('Invalid maxSize value.', CacheErrorCode.INVALID_OPTION)
+      this.handleError(error)
+      throw error
+    }
+
+    this.cleanupExpiredKeys()
+    let evictable = 0
+    for (const keys of this.priorityIndex.values()) {
+      evictable += keys.size
+    }
+    if (this.strategy.size - evictable > maxSize) {
+      this.throwCapacityExceeded()
+    }
+
+    while (this.strategy.size > maxSize) {
+      if (!this.evictNext(undefined, 'capacity')) {
+        this.throwCapacityExceeded()
+      }
+    }
+
+    this.options.maxSize = maxSize
+    this.stats.maxSize = maxSize
+    this.migrateStrategy(this.createStrategy(this.options.strategy))
   }
 
   on(type: CacheEventType, listener: CacheEventListener<T>): void {
@@ -572,14 +1271,67 @@ export class CacheManager<T = any> {
     this.listeners.get(type)!.add(listener)
   }
 
+  /**
+   * Subscribes to set/delete/expire/evict of one key, a glob or a RegExp.
+   * Changes are delivered in a microtask, once per key with its latest
+   * change, so a burst of writes produces a single notification per key.
+   * Returns an unsubscribe function.
+   */
+  watch<V>(key: CacheKey<V>, listener: CacheWatchListener<V>, options?: WatchOptions): () => void
+  watch(target: string | RegExp, listener: CacheWatchListener<T>, options?: WatchOptions): () => void
+  watch(target: string | RegExp | CacheKey, listener: CacheWatchListener<T>, options: WatchOptions = {}): () => void {
+    const pattern = isCacheKey(target) ? target.key : target
+    const watcher: Watcher<T> = { matches: createPatternMatcher(pattern), listener }
+
+    if (options.immediate) {
+      for (const key of this.matchPaths(this.keyPaths, pattern)) {
+        if (!this.ensureNotExpired(key) && this.strategy.has(key)) {
+          this.deliverChange(watcher, { key, type: 'set', value: this.strategy.peek(key) })
+        }
+      }
+    }
+
+    this.watchers.add(watcher)
+    return () => {
+      this.watchers.delete(watcher)
+    }
+  }
+
+  /**
+   * Registers a loader for a key, glob or RegExp. Once an entry has lived
+   * past `refreshAhead` of its ttl, reads return the current value and start
+   * one background reload; the cleanup timer also reloads entries that were
+   * read since their last write. The most recently registered match wins.
+   * Returns an unregister function.
+   */
+  registerLoader<V>(key: CacheKey<V>, loader: CacheLoader<V>, options?: RegisterLoaderOptions): () => void
+  registerLoader(target: string | RegExp, loader: CacheLoader<T>, options?: RegisterLoaderOptions): () => void
+  registerLoader(target: string | RegExp | CacheKey, loader: CacheLoader<T>, options: RegisterLoaderOptions = {}): () => void {
+    const refreshAhead = options.refreshAhead ?? this.options.refreshAhead
+    this.assertRefreshAhead(refreshAhead)
+
+    const entry: LoaderEntry<T> = {
+      matches: createPatternMatcher(isCacheKey(target) ? target.key : target),
+      loader,
+      refreshAhead,
+    }
+    this.loaders.push(entry)
+
+    return () => {
+      this.loaders = this.loaders.filter(current => current !== entry)
+    }
+  }
+
   off(type: CacheEventType, listener: CacheEventListener<T>): void {
     this.listeners.get(type)?.delete(listener)
   }
 
   stopAutoCleanup(): void {
+    this.autoCleanup = false
     if (this.cleanupTimer) {
-      clearInterval(this.cleanupTimer)
+      clearTimeout(this.cleanupTimer)
       this.cleanupTimer = undefined
+      this.cleanupDeadline = undefined
     }
   }
 
@@ -587,6 +1339,11 @@ export class CacheManager<T = any> {
     this.stopAutoCleanup()
     this.clear()
     this.listeners.clear()
+    this.namespaces.clear()
+    this.namespaceCounters.clear()
+    this.watchers.clear()
+    this.pendingChanges.clear()
+    this.loaders = []
     this.query.clearInflight()
 
     for (const plugin of this.options.plugins) {
@@ -642,12 +1399,41 @@ export class CacheManager<T = any> {
   private resolveSetOptions(input?: number | SetOptions): SetOptions {
     const base: SetOptions = typeof input === 'number' ? { ttl: input } : { ...(input ?? {}) }
 
+    if (base.expiresAt !== undefined) {
+      const now = this.clock.now()
+      const expiresAt = resolveExpiresAt(base.expiresAt, now)
+      if (!Number.isFinite(expiresAt)) {
+        this.assertTTL(Number.NaN)
+      }
+      // Resolved once, so a policy sees the write time and jitter is skipped.
+      base.ttl = Math.max(0, expiresAt - now)
+      base.expiresAt = undefined
+      base.ttlJitter = 0
+    }
+
     if (base.ttl === undefined) {
       base.ttl = this.options.defaultTTL
     }
 
-    if (base.namespace === undefined) {
-      base.namespace = this.options.namespace
+    // Restored entries keep the expiry they were written with.
+    const jitter = this.restoring ? 0 : base.ttlJitter ?? this.options.ttlJitter
+    this.assertTTL(jitter)
+    if (jitter && base.ttl) {
+      base.ttl = jitterTTL(base.ttl, jitter)
+    }
+    // Applied once, so re-resolving after a plugin does not spread again.
+    base.ttlJitter = 0
+
+    if (base.sliding === undefined) {
+      base.sliding = this.options.defaultSliding
+    }
+
+    if (base.staleIfError === undefined) {
+      base.staleIfError = this.options.staleIfError
+    }
+
+    if (base.namespace === undefined) {
+      base.namespace = this.options.namespace
     }
 
     if (base.tags) {
@@ -665,25 +1451,51 @@ export class CacheManager<T = any> {
     return Array.from(new Set(normalized))
   }
 
-  private setMetadata(key: string, options: SetOptions): void {
+  private setMetadata(key: string, options: SetOptions, deadline?: SetOptions['expiresAt']): void {
     this.removeMetadata(key)
 
+    const now = this.clock.now()
     const ttl = options.ttl
-    const expiresAt = ttl !== undefined ? Date.now() + ttl : undefined
+    const maxExpiresAt = options.maxLifetime !== undefined ? now + options.maxLifetime : undefined
+    const expiresAt = this.capExpiry(ttl !== undefined ? now + ttl : undefined, maxExpiresAt)
 
     const metadata: EntryMetadata = {
       tags: this.normalizeTags(options.tags ?? []),
       namespace: options.namespace,
       priority: options.priority,
+      pinned: options.pinned,
+      sliding: options.sliding,
       ttl,
       expiresAt,
+      staleTtl: options.staleTtl,
+      freshUntil: this.capFreshness(options.staleTtl, expiresAt),
+      maxExpiresAt,
+      version: this.resolveSchemaVersion(options.namespace),
+      dependencies: options.dependsOn?.length ? [...new Set(options.dependsOn)] : undefined,
+      staleIfError: options.staleIfError || undefined,
+      deadline,
     }
 
+    this.indexMetadata(key, metadata)
+  }
+
+  private indexMetadata(key: string, metadata: EntryMetadata): void {
     this.metadata.set(key, metadata)
+    this.keyPaths.add(key)
+    this.trackExpiry(key, metadata.expiresAt)
+
+    if (!metadata.pinned) {
+      const priority = metadata.priority ?? 0
+      if (!this.priorityIndex.has(priority)) {
+        this.priorityIndex.set(priority, new Set())
+      }
+      this.priorityIndex.get(priority)!.add(key)
+    }
 
     for (const tag of metadata.tags) {
       if (!this.tagIndex.has(tag)) {
         this.tagIndex.set(tag, new Set())
+        this.tagPaths.add(tag)
       }
       this.tagIndex.get(tag)!.add(key)
     }
@@ -691,12 +1503,23 @@ export class CacheManager<T = any> {
     if (metadata.namespace) {
       if (!this.namespaceIndex.has(metadata.namespace)) {
         this.namespaceIndex.set(metadata.namespace, new Set())
+        this.namespacePaths.add(metadata.namespace)
       }
       this.namespaceIndex.get(metadata.namespace)!.add(key)
     }
+
+    for (const dependency of metadata.dependencies ?? []) {
+      if (!this.dependents.has(dependency)) {
+        this.dependents.set(dependency, new Set())
+      }
+      this.dependents.get(dependency)!.add(key)
+    }
   }
 
   private removeMetadata(key: string): void {
+    this.memory.untrack(key)
+    this.refreshing.delete(key)
+
     const metadata = this.metadata.get(key)
     if (!metadata) {
       return
@@ -710,6 +1533,7 @@ export class CacheManager<T = any> {
       keys.delete(key)
       if (keys.size === 0) {
         this.tagIndex.delete(tag)
+        this.tagPaths.remove(tag)
       }
     }
 
@@ -719,11 +1543,179 @@ export class CacheManager<T = any> {
         keys.delete(key)
         if (keys.size === 0) {
           this.namespaceIndex.delete(metadata.namespace)
+          this.namespacePaths.remove(metadata.namespace)
+        }
+      }
+    }
+
+    for (const dependency of metadata.dependencies ?? []) {
+      const keys = this.dependents.get(dependency)
+      if (keys) {
+        keys.delete(key)
+        if (keys.size === 0) {
+          this.dependents.delete(dependency)
         }
       }
     }
 
+    const priority = metadata.priority ?? 0
+    const priorityKeys = this.priorityIndex.get(priority)
+    if (priorityKeys) {
+      priorityKeys.delete(key)
+      if (priorityKeys.size === 0) {
+        this.priorityIndex.delete(priority)
+      }
+    }
+
     this.metadata.delete(key)
+    this.keyPaths.remove(key)
+  }
+
+  /**
+   * Credits a counter to every namespace view whose prefix the key starts
+   * with (`app:users:1` counts for `app` and `app:users`).
+   */
+  private countNamespaceStat(key: string, field: keyof NamespaceCounters): void {
+    if (this.namespaceCounters.size === 0) {
+      return
+    }
+
+    let separator = key.indexOf(PATTERN_SEPARATOR)
+    while (separator !== -1) {
+      const counters = this.namespaceCounters.get(key.slice(0, separator))
+      if (counters) {
+        counters[field] += 1
+      }
+      separator = key.indexOf(PATTERN_SEPARATOR, separator + 1)
+    }
+  }
+
+  private matchPaths(paths: PrefixIndex, pattern: string | RegExp): string[] {
+    const matches = createPatternMatcher(pattern)
+    const candidates = typeof pattern === 'string'
+      ? paths.collect(getPatternPrefix(pattern))
+      : paths.keys()
+
+    return candidates.filter(matches)
+  }
+
+  private collectIndexedKeys(index: Map<string, Set<string>>, names: string[]): Set<string> {
+    const keys = new Set<string>()
+    for (const name of names) {
+      for (const key of index.get(name) ?? []) {
+        keys.add(key)
+      }
+    }
+    return keys
+  }
+
+  private invalidateKeys(keys: Iterable<string>): number {
+    let removed = 0
+
+    for (const key of keys) {
+      if (this.delete(key)) {
+        removed += 1
+      }
+    }
+
+    return removed
+  }
+
+  private readItem(key: string): CacheItem<T> | undefined {
+    if (this.ensureNotExpired(key)) {
+      return undefined
+    }
+
+    const item = this.strategy.getItem(key)
+    if (!item) {
+      this.removeMetadata(key)
+      return undefined
+    }
+
+    const metadata = this.metadata.get(key)
+
+    return {
+      ...item,
+      tags: metadata?.tags,
+      namespace: metadata?.namespace,
+      priority: metadata?.priority,
+      pinned: metadata?.pinned,
+      sliding: metadata?.sliding,
+      ttl: metadata?.ttl ?? item.ttl,
+      expiresAt: metadata?.expiresAt ?? item.expiresAt,
+      freshUntil: metadata?.freshUntil ?? metadata?.expiresAt ?? item.expiresAt,
+      maxExpiresAt: metadata?.maxExpiresAt,
+      deadline: metadata?.deadline !== undefined ? metadata.expiresAt : undefined,
+      version: metadata?.version,
+      dependencies: metadata?.dependencies,
+      staleIfError: metadata?.staleIfError,
+    }
+  }
+
+  private capExpiry(expiresAt: number | undefined, maxExpiresAt: number | undefined): number | undefined {
+    if (maxExpiresAt === undefined) {
+      return expiresAt
+    }
+    return expiresAt === undefined ? maxExpiresAt : Math.min(expiresAt, maxExpiresAt)
+  }
+
+  /**
+   * Pushes a sliding entry's deadline forward by its TTL, never past its
+   * `maxLifetime` cap.
+   */
+  private slideExpiry(key: string): void {
+    const metadata = this.metadata.get(key)
+    if (!metadata?.sliding || metadata.ttl === undefined) {
+      return
+    }
+
+    const expiresAt = this.capExpiry(this.clock.now() + metadata.ttl, metadata.maxExpiresAt)!
+    if (expiresAt === metadata.expiresAt) {
+      return
+    }
+
+    metadata.freshUntil = this.capFreshness(metadata.staleTtl, expiresAt)
+    this.updateExpiry(key, metadata, expiresAt)
+
+    if (this.options.enablePersistence && !this.restoring) {
+      this.saveToStorage(key)
+    }
+  }
+
+  private updateExpiry(key: string, metadata: EntryMetadata, expiresAt: number): void {
+    metadata.expiresAt = expiresAt
+    // Keep the strategy's own expiry check in step with the metadata.
+    this.strategy.refresh?.(key, Math.max(1, expiresAt - this.clock.now()))
+    this.trackExpiry(key, expiresAt)
+  }
+
+  /**
+   * Old heap nodes are dropped lazily; compaction keeps sliding entries
+   * from growing the heap without bound.
+   */
+  private trackExpiry(key: string, expiresAt: number | undefined): void {
+    if (expiresAt === undefined) {
+      return
+    }
+
+    this.expiryIndex.push(key, expiresAt)
+    if (this.expiryIndex.size > this.metadata.size * 2 + 64) {
+      this.expiryIndex.compact(this.isCurrentExpiry)
+    }
+    this.scheduleCleanup()
+  }
+
+  private capFreshness(staleTtl: number | undefined, expiresAt: number | undefined): number | undefined {
+    if (staleTtl === undefined) {
+      return undefined
+    }
+    const freshUntil = this.clock.now() + staleTtl
+    return expiresAt !== undefined ? Math.min(freshUntil, expiresAt) : freshUntil
+  }
+
+  private isStale(key: string): boolean {
+    const freshUntil = this.metadata.get(key)?.freshUntil
+    return freshUntil !== undefined && freshUntil <= this.clock.now()
   }
 
   private ensureNotExpired(key: string): boolean {
@@ -732,7 +1724,7 @@ export class CacheManager<T = any> {
       return false
     }
 
-    if (metadata.expiresAt > Date.now()) {
+    if (metadata.expiresAt > this.clock.now()) {
       return false
     }
 
@@ -741,11 +1733,13 @@ export class CacheManager<T = any> {
   }
 
   private cleanupExpiredKeys(): number {
-    const now = Date.now()
+    const now = this.clock.now()
     let count = 0
 
-    for (const [key, metadata] of this.metadata.entries()) {
-      if (!metadata.expiresAt || metadata.expiresAt > now) {
+    for (const key of this.expiryIndex.popDue(now, this.isCurrentExpiry)) {
+      // An earlier expiry may have evicted this key as a dependent.
+      const metadata = this.metadata.get(key)
+      if (!metadata?.expiresAt || metadata.expiresAt > now) {
         continue
       }
 
@@ -762,31 +1756,85 @@ export class CacheManager<T = any> {
     if (count > 0 && this.options.enableStats) {
       this.stats.size = this.strategy.size
       this.updateMemoryUsage()
-      this.stats.lastUpdated = Date.now()
+      this.stats.lastUpdated = this.clock.now()
     }
 
     return count
   }
 
+  private sweepShadows(): void {
+    const now = this.clock.now()
+
+    for (const [key, expiresAt] of this.negatives) {
+      if (expiresAt !== undefined && expiresAt <= now) {
+        this.negatives.delete(key)
+      }
+    }
+
+    for (const [key, shadow] of this.staleShadows) {
+      if (shadow.staleUntil <= now) {
+        this.staleShadows.delete(key)
+      }
+    }
+  }
+
+  private keepStaleShadow(key: string, value: T): void {
+    const metadata = this.metadata.get(key)
+    if (!metadata?.staleIfError || metadata.expiresAt === undefined) {
+      return
+    }
+
+    const writtenAt = metadata.ttl !== undefined ? metadata.expiresAt - metadata.ttl : metadata.expiresAt
+    this.staleShadows.delete(key)
+    this.staleShadows.set(key, {
+      item: {
+        key,
+        value,
+        createdAt: writtenAt,
+        lastAccessedAt: writtenAt,
+        accessCount: 0,
+        ttl: metadata.ttl,
+        expiresAt: metadata.expiresAt,
+        tags: metadata.tags,
+        namespace: metadata.namespace,
+        staleIfError: metadata.staleIfError,
+      },
+      staleUntil: metadata.expiresAt + metadata.staleIfError,
+    })
+    if (this.staleShadows.size > this.options.maxSize) {
+      this.staleShadows.delete(this.staleShadows.keys().next().value!)
+    }
+  }
+
   private handleExpiredWithoutValue(key: string): void {
     this.removeMetadata(key)
     this.removeFromStorage(key)
 
     if (this.options.enableStats) {
       this.stats.expirations += 1
+      this.countNamespaceStat(key, 'expirations')
       this.stats.size = this.strategy.size
-      this.stats.lastUpdated = Date.now()
+      this.stats.lastUpdated = this.clock.now()
     }
 
     this.emit(CacheEventType.EXPIRE, { key })
+    this.invalidateDependents(key)
   }
 
   private deleteInternal(key: string, reason: EvictionReason, emitDeleteEvent: boolean): boolean {
-    const value = this.peekValue(key)
+    this.recordPrior(key)
+    const value = this.strategy.peek(key)
+    if (reason === 'expired' && value !== undefined) {
+      this.keepStaleShadow(key, value)
+    }
+    else {
+      this.staleShadows.delete(key)
+    }
     const success = this.strategy.delete(key)
 
     if (!success) {
       this.removeMetadata(key)
+      this.invalidateDependents(key)
       return false
     }
 
@@ -796,9 +1844,10 @@ export class CacheManager<T = any> {
       this.stats.size = this.strategy.size
       if (reason === 'expired') {
         this.stats.expirations += 1
+        this.countNamespaceStat(key, 'expirations')
       }
       this.updateMemoryUsage()
-      this.stats.lastUpdated = Date.now()
+      this.stats.lastUpdated = this.clock.now()
     }
 
     if (emitDeleteEvent) {
@@ -812,7 +1861,7 @@ export class CacheManager<T = any> {
     if (reason === 'expired') {
       this.emit(CacheEventType.EXPIRE, { key, value })
       if (value !== undefined) {
-        this.options.onExpire?.(key, value)
+        this.afterCommit(() => this.options.onExpire?.(key, value))
       }
     }
 
@@ -820,30 +1869,286 @@ export class CacheManager<T = any> {
       this.removeFromStorage(key)
     }
 
+    this.invalidateDependents(key)
     return true
   }
 
-  private handleEviction(evicted: CacheItem<T>): void {
-    const reason = this.resolveEvictionReasonByStrategy()
+  /**
+   * Applies staged operations in order, rolling every touched key back if
+   * any of them throws.
+   */
+  private commit(tx: StagedTransaction<T>): void {
+    tx.closed = true
+    if (tx.operations.size === 0) {
+      return
+    }
+
+    if (this.journal) {
+      const error = this.createCacheError('Cannot commit a transaction while another one is committing.', CacheErrorCode.TRANSACTION_FAILED)
+      this.handleError(error)
+      throw error
+    }
+
+    const journal = new Map<string, JournalEntry<T> | null>()
+    const deferred: Array<() => void> = []
+    const stats = { ...this.stats }
+    const namespaceCounters = new Map([...this.namespaceCounters].map(([name, counters]) => [name, { ...counters }]))
+
+    this.journal = journal
+    this.deferred = deferred
+    try {
+      for (const [key, operation] of tx.operations) {
+        if (operation.type === 'set') {
+          this.set(key, operation.value, operation.options)
+        }
+        else {
+          this.delete(key)
+        }
+      }
+    }
+    catch (error) {
+      this.journal = undefined
+      this.deferred = undefined
+      this.rollback(journal)
+      this.stats = stats
+      this.namespaceCounters = namespaceCounters
+      throw error
+    }
+
+    this.journal = undefined
+    this.deferred = undefined
+
+    if (this.options.enablePersistence) {
+      for (const key of journal.keys()) {
+        this.saveToStorage(key)
+      }
+    }
+
+    for (const task of deferred) {
+      task()
+    }
+  }
+
+  /**
+   * Remembers the state of a key before a committing transaction first
+   * touches it.
+   */
+  private recordPrior(key: string, evicted?: CacheItem<T>): void {
+    if (!this.journal || this.journal.has(key)) {
+      return
+    }
+
+    const item = evicted ?? this.strategy.getItem(key)
+    const metadata = this.metadata.get(key)
+    this.journal.set(key, item
+      ? {
+          item,
+          metadata: metadata ? { ...metadata, tags: [...metadata.tags] } : { tags: [] },
+          // Victims are taken from the front, so they go back ahead of the next one.
+          before: evicted ? this.strategy.nextVictim?.() : this.strategy.nextVictim?.(key),
+        }
+      : null)
+  }
+
+  private rollback(journal: Map<string, JournalEntry<T> | null>): void {
+    // Drop everything first so restored entries never compete for capacity.
+    for (const key of journal.keys()) {
+      this.strategy.delete(key)
+      this.removeMetadata(key)
+    }
+
+    // Undo in reverse, putting each recorded neighbour back in place first.
+    const restored = new Set<string>()
+    const restore = (key: string): void => {
+      const entry = journal.get(key)
+      if (!entry || restored.has(key)) {
+        return
+      }
+      restored.add(key)
+      if (entry.before !== undefined) {
+        restore(entry.before)
+      }
+
+      const { item, metadata } = entry
+      if (this.strategy.restore) {
+        this.strategy.restore(item, entry.before)
+      }
+      else {
+        this.strategy.set(key, item.value, metadata.ttl)
+      }
+      this.indexMetadata(key, metadata)
+      this.memory.track(key, item.value)
+      if (metadata.expiresAt !== undefined) {
+        this.updateExpiry(key, metadata, metadata.expiresAt)
+      }
+    }
+
+    for (const key of [...journal.keys()].reverse()) {
+      restore(key)
+    }
+  }
+
+  private afterCommit(task: () => void): void {
+    if (this.deferred) {
+      this.deferred.push(task)
+      return
+    }
+    task()
+  }
+
+  /**
+   * Makes room for a new key under `maxSize` before it reaches the strategy,
+   * so priority classes and pins apply to every strategy.
+   */
+  private reserveCapacity(key: string): void {
+    if (!this.strategy.evict || this.strategy.has(key)) {
+      return
+    }
+
+    while (this.strategy.size >= this.options.maxSize) {
+      if (!this.evictNext(key, this.resolveEvictionReasonByStrategy())) {
+        this.throwCapacityExceeded(key)
+      }
+    }
+  }
+
+  /**
+   * Evicts entries until `size` more bytes fit the `maxMemory` budget. The key
+   * being written is never chosen as a victim.
+   */
+  private reserveMemory(key: string, size: number): void {
+    const { maxMemory } = this.options
+    if (maxMemory === undefined || !this.strategy.evict) {
+      return
+    }
+
+    const previous = this.memory.getSize(key) ?? 0
+    while (this.memory.total - previous + size > maxMemory) {
+      if (!this.evictNext(key, 'capacity')) {
+        this.throwCapacityExceeded(key)
+      }
+    }
+  }
+
+  /**
+   * Evicts the strategy's next victim within the lowest non-pinned priority
+   * class. Returns false when nothing but `protectedKey` or pinned entries remain.
+   */
+  private evictNext(protectedKey: string | undefined, reason: EvictionReason): boolean {
+    let lowest: number | undefined
+    for (const [priority, keys] of this.priorityIndex) {
+      const hasCandidate = protectedKey === undefined || keys.size > 1 || !keys.has(protectedKey)
+      if (hasCandidate && (lowest === undefined || priority < lowest)) {
+        lowest = priority
+      }
+    }
+
+    if (lowest === undefined) {
+      return false
+    }
+
+    const candidates = this.priorityIndex.get(lowest)!
+    // With no pins and a single class every entry is a candidate, so the
+    // strategy can take its own fast path.
+    const unfiltered = candidates.size === this.metadata.size
+      && candidates.size === this.strategy.size
+      && (protectedKey === undefined || !candidates.has(protectedKey))
+    const natural = !unfiltered && this.priorityIndex.size > 1 ? this.naturalVictim(protectedKey) : undefined
+    const victim = unfiltered
+      ? this.strategy.evict?.()
+      : this.strategy.evict?.(key => key !== protectedKey && candidates.has(key))
+    if (!victim) {
+      return false
+    }
+
+    this.handleEviction(victim, natural !== undefined && natural !== victim.key ? 'priority' : reason)
+    return true
+  }
+
+  /**
+   * The victim the strategy would pick if priorities were ignored, used to
+   * tell whether a priority class changed the outcome.
+   */
+  private naturalVictim(protectedKey: string | undefined): string | undefined {
+    if (!this.strategy.nextVictim) {
+      return undefined
+    }
+
+    let key = this.strategy.nextVictim()
+    while (key !== undefined && (key === protectedKey || this.metadata.get(key)?.pinned)) {
+      key = this.strategy.nextVictim(key)
+    }
+    return key
+  }
+
+  private throwCapacityExceeded(key?: string): never {
+    const error = this.createCacheError(
+      'Cache is full and every remaining entry is pinned.',
+      CacheErrorCode.CAPACITY_EXCEEDED,
+      key,
+    )
+    this.handleError(error, key)
+    throw error
+  }
+
+  private handleEviction(evicted: CacheItem<T>, reason: EvictionReason = this.resolveEvictionReasonByStrategy()): void {
+    this.recordPrior(evicted.key, evicted)
+    const metadata = this.metadata.get(evicted.key)
     this.removeMetadata(evicted.key)
 
     if (this.options.enableStats) {
       this.stats.evictions += 1
+      this.countNamespaceStat(evicted.key, 'evictions')
       this.stats.size = this.strategy.size
-      this.stats.lastUpdated = Date.now()
+      this.updateMemoryUsage()
+      this.stats.lastUpdated = this.clock.now()
     }
 
     this.emit(CacheEventType.EVICT, {
       key: evicted.key,
       value: evicted.value,
-      metadata: { reason },
+      metadata: {
+        reason,
+        ttl: metadata?.ttl ?? evicted.ttl,
+        expiresAt: metadata?.expiresAt ?? evicted.expiresAt,
+        freshUntil: metadata?.freshUntil,
+        tags: metadata?.tags,
+        namespace: metadata?.namespace,
+        priority: metadata?.priority,
+        pinned: metadata?.pinned,
+        sliding: metadata?.sliding,
+        maxExpiresAt: metadata?.maxExpiresAt,
+        deadline: metadata?.deadline !== undefined ? metadata.expiresAt : undefined,
+        dependencies: metadata?.dependencies,
+        staleIfError: metadata?.staleIfError,
+      },
     })
 
-    this.options.onEvict?.(evicted.key, evicted.value, reason)
+    this.afterCommit(() => this.options.onEvict?.(evicted.key, evicted.value, reason))
 
     if (this.options.enablePersistence) {
       this.removeFromStorage(evicted.key)
     }
+
+    this.invalidateDependents(evicted.key)
+  }
+
+  /**
+   * Evicts everything derived from a removed key. Each entry is gone before
+   * its own dependents are visited, so cycles terminate.
+   */
+  private invalidateDependents(key: string): void {
+    const dependents = this.dependents.get(key)
+    if (!dependents) {
+      return
+    }
+
+    for (const dependent of [...dependents]) {
+      const item = this.readItem(dependent)
+      if (item && this.strategy.delete(dependent)) {
+        this.handleEviction(item, 'dependency')
+      }
+    }
   }
 
   private resolveEvictionReasonByStrategy(): EvictionReason {
@@ -859,16 +2164,18 @@ export class CacheManager<T = any> {
     }
   }
 
-  private peekValue(key: string): T | undefined {
-    for (const [entryKey, value] of this.strategy.entries()) {
-      if (entryKey === key) {
-        return value
-      }
+  private emit(type: CacheEventType, data: Partial<CacheEvent<T>>): void {
+    if (this.deferred) {
+      const timestamp = this.clock.now()
+      this.deferred.push(() => this.emit(type, { timestamp, ...data }))
+      return
+    }
+
+    const change = WATCHED_EVENTS[type]
+    if (change && data.key !== undefined) {
+      this.queueChange({ key: data.key, type: change, value: data.value })
     }
-    return undefined
-  }
 
-  private emit(type: CacheEventType, data: Partial<CacheEvent<T>>): void {
     const listeners = this.listeners.get(type)
     if (!listeners || listeners.size === 0) {
       return
@@ -876,7 +2183,7 @@ export class CacheManager<T = any> {
 
     const event: CacheEvent<T> = {
       type,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       ...data,
     }
 
@@ -890,191 +2197,578 @@ export class CacheManager<T = any> {
     }
   }
 
-  private createStrategy(strategy: CacheStrategy): ICacheStrategy<T> {
-    const { maxSize, defaultTTL, cleanupInterval } = this.options
+  private findLoader(key: string): LoaderEntry<T> | undefined {
+    for (let i = this.loaders.length - 1; i >= 0; i--) {
+      if (this.loaders[i].matches(key)) {
+        return this.loaders[i]
+      }
+    }
+    return undefined
+  }
 
-    switch (strategy) {
-      case CacheStrategy.LFU:
-        return new LFUCache<T>(maxSize, defaultTTL)
-      case CacheStrategy.FIFO:
-        return new FIFOCache<T>(maxSize, defaultTTL)
-      case CacheStrategy.TTL:
-        return new TTLCache<T>(defaultTTL ?? 5 * 60 * 1000, cleanupInterval)
-      case CacheStrategy.LRU:
-      default:
-        return new LRUCache<T>(maxSize, defaultTTL)
+  /**
+   * Starts a background reload once the entry is past its refresh threshold.
+   * Sliding entries are kept alive by reads and never refresh ahead.
+   */
+  private refreshAhead(key: string, hotOnly = false): void {
+    if (this.loaders.length === 0 || this.refreshing.has(key)) {
+      return
+    }
+
+    const metadata = this.metadata.get(key)
+    if (!metadata || metadata.sliding || metadata.ttl === undefined || metadata.expiresAt === undefined) {
+      return
     }
+
+    const entry = this.findLoader(key)
+    if (!entry) {
+      return
+    }
+
+    const writtenAt = metadata.expiresAt - metadata.ttl
+    if (this.clock.now() - writtenAt < metadata.ttl * entry.refreshAhead) {
+      return
+    }
+
+    if (hotOnly && !metadata.read) {
+      return
+    }
+
+    // Writes, deletes and expiry drop the entry from `refreshing`, which
+    // discards a reload that finishes afterwards.
+    const task: Promise<void> = Promise.resolve()
+      .then(() => entry.loader(key))
+      .then((value) => {
+        if (this.refreshing.get(key) !== task) {
+          return
+        }
+        this.refreshing.delete(key)
+
+        const current = this.metadata.get(key)
+        // The reload keeps the entry's hard cap rather than starting a new one.
+        const maxLifetime = current?.maxExpiresAt !== undefined ? current.maxExpiresAt - this.clock.now() : undefined
+        if (value !== undefined && current && (maxLifetime === undefined || maxLifetime > 0)) {
+          this.set(key, value, {
+            ttl: current.ttl,
+            expiresAt: current.deadline,
+            maxLifetime,
+            ttlJitter: 0,
+            staleTtl: current.staleTtl,
+            tags: current.tags,
+            namespace: current.namespace,
+            priority: current.priority,
+            pinned: current.pinned,
+            dependsOn: current.dependencies,
+            staleIfError: current.staleIfError,
+          })
+        }
+      })
+      .catch((error) => {
+        if (this.refreshing.get(key) === task) {
+          this.refreshing.delete(key)
+        }
+        this.handleError(this.createCacheError('Background refresh failed.', CacheErrorCode.REFRESH_FAILED, key, error as Error), key)
+      })
+
+    this.refreshing.set(key, task)
   }
 
-  private updateHitRate(): void {
-    this.stats.hitRate = this.stats.totalRequests === 0
-      ? 0
-      : this.stats.hits / this.stats.totalRequests
+  private refreshHotKeys(): void {
+    if (this.loaders.length === 0) {
+      return
+    }
+
+    for (const key of [...this.metadata.keys()]) {
+      this.refreshAhead(key, true)
+    }
   }
 
-  private updateMemoryUsage(): void {
-    let total = 0
+  private queueChange(change: CacheChange<T>): void {
+    if (this.watchers.size === 0) {
+      return
+    }
 
-    for (const [key, value] of this.strategy.entries()) {
-      total += this.estimateSize(key)
-      total += this.estimateSize(value)
+    if (this.pendingChanges.size === 0) {
+      queueMicrotask(() => this.flushChanges())
     }
+    this.pendingChanges.delete(change.key)
+    this.pendingChanges.set(change.key, change)
+  }
+
+  private flushChanges(): void {
+    const changes = [...this.pendingChanges.values()]
+    this.pendingChanges.clear()
 
-    this.stats.memoryUsage = total
+    for (const change of changes) {
+      for (const watcher of this.watchers) {
+        if (watcher.matches(change.key)) {
+          this.deliverChange(watcher, change)
+        }
+      }
+    }
   }
 
-  private estimateSize(value: unknown): number {
+  private deliverChange(watcher: Watcher<T>, change: CacheChange<T>): void {
     try {
-      return JSON.stringify(value).length * 2
+      watcher.listener(change)
+    }
+    catch (error) {
+      this.handleError(error, change.key)
+    }
+  }
+
+  /**
+   * Moves live entries into `next`. Manager-side metadata (tags, namespaces,
+   * priorities, expiry) is keyed by name and stays as is.
+   */
+  private migrateStrategy(next: ICacheStrategy<T>): void {
+    this.cleanupExpiredKeys()
+
+    const previous = this.strategy
+    for (const key of previous.evictionOrder?.() ?? previous.keys()) {
+      const item = previous.peekItem(key)
+      if (!item) {
+        continue
+      }
+
+      if (next.restore) {
+        next.restore(item)
+      }
+      else {
+        next.set(key, item.value, item.ttl)
+      }
     }
-    catch {
-      return 0
+
+    this.strategy = next
+    if (previous.destroy) {
+      previous.destroy()
+    }
+    else {
+      previous.clear()
+    }
+    this.stats.size = next.size
+  }
+
+  private createStrategy(strategy: CacheStrategy | string | StrategyFactory<T>): ICacheStrategy<T> {
+    const factory: StrategyFactory<T> | undefined = typeof strategy === 'function' ? strategy : getStrategyFactory(strategy)
+    if (!factory) {
+      const error = this.createCacheError(`Unknown cache strategy "${strategy}".`, CacheErrorCode.INVALID_OPTION)
+      this.handleError(error)
+      throw error
     }
+
+    const { maxSize, defaultTTL, cleanupInterval } = this.options
+    return factory({ maxSize, defaultTTL, cleanupInterval, clock: this.clock })
+  }
+
+  private updateHitRate(): void {
+    this.stats.hitRate = this.stats.totalRequests === 0
+      ? 0
+      : this.stats.hits / this.stats.totalRequests
+  }
+
+  private updateMemoryUsage(): void {
+    this.stats.memoryUsage = this.memory.total
   }
 
   private startAutoCleanup(): void {
-    this.cleanupTimer = setInterval(() => {
-      this.cleanup()
-    }, this.options.cleanupInterval)
+    this.autoCleanup = true
+    this.nextMaintenance = this.clock.now() + this.options.cleanupInterval
+    this.scheduleCleanup()
+  }
+
+  /**
+   * Arms one timer for the earlier of the next entry deadline and the next
+   * maintenance pass (stale shadows, negative entries, hot-key refresh),
+   * which still runs every `cleanupInterval`.
+   */
+  private scheduleCleanup(): void {
+    if (!this.autoCleanup) {
+      return
+    }
+
+    const deadline = Math.min(this.expiryIndex.peek() ?? Infinity, this.nextMaintenance)
+    if (this.cleanupTimer && this.cleanupDeadline !== undefined && this.cleanupDeadline <= deadline) {
+      return
+    }
+
+    if (this.cleanupTimer) {
+      clearTimeout(this.cleanupTimer)
+    }
+    this.cleanupDeadline = deadline
+    this.cleanupTimer = setTimeout(() => this.runScheduledCleanup(), Math.max(0, deadline - this.clock.now()))
 
     if (typeof this.cleanupTimer.unref === 'function') {
       this.cleanupTimer.unref()
     }
   }
 
+  private runScheduledCleanup(): void {
+    this.cleanupTimer = undefined
+    this.cleanupDeadline = undefined
+
+    this.cleanupExpiredKeys()
+    const now = this.clock.now()
+    if (now >= this.nextMaintenance) {
+      this.nextMaintenance = now + this.options.cleanupInterval
+      this.sweepShadows()
+      this.refreshHotKeys()
+    }
+
+    this.scheduleCleanup()
+  }
+
+  private createPersistence(): IStorageAdapter {
+    if (this.options.storage) {
+      if (this.clock !== systemClock) {
+        this.options.storage.useClock?.(this.clock)
+      }
+      return this.options.storage
+    }
+
+    return this.options.storageType === 'sessionStorage'
+      ? new SessionStorageAdapter(createJSONSerializer(), this.options.storagePrefix)
+      : new LocalStorageAdapter(createJSONSerializer(), this.options.storagePrefix)
+  }
+
   private loadFromStorage(): void {
-    const storage = this.getStorage()
-    if (!storage) {
+    const storage = this.persistence
+    if (!storage || !storage.isAvailable()) {
+      return
+    }
+
+    let keys: string[] | Promise<string[]>
+    try {
+      keys = storage.keys()
+    }
+    catch (error) {
+      this.handleError(error)
       return
     }
 
-    const prefix = this.options.storagePrefix
-    const storageKeys: string[] = []
+    const report = this.options.schemaVersion !== undefined
+      ? { current: 0, upgraded: [], dropped: [] }
+      : undefined
 
-    for (let i = 0; i < storage.length; i += 1) {
-      const storageKey = storage.key(i)
-      if (storageKey && storageKey.startsWith(prefix)) {
-        storageKeys.push(storageKey)
+    if (!isPromiseLike<string[]>(keys)) {
+      const pending = this.hydrateKeys(storage, keys, report)
+      if (pending) {
+        this.trackHydration(pending)
       }
     }
+    else {
+      this.trackHydration(Promise.resolve(keys).then(list => this.hydrateKeys(storage, list, report)))
+    }
 
-    for (const storageKey of storageKeys) {
-      try {
-        const raw = storage.getItem(storageKey)
-        if (!raw) {
-          continue
-        }
+    if (report) {
+      // Emitted once hydration settles, so listeners added right after
+      // construction still receive it and `ready()` implies delivery.
+      this.hydration = this.hydration.then(() => {
+        this.emit(CacheEventType.MIGRATE, { metadata: { report } })
+      })
+    }
+  }
 
-        const parsed = JSON.parse(raw) as PersistedCacheEntry<T>
-        const key = storageKey.slice(prefix.length)
+  private trackHydration(task: Promise<unknown>): void {
+    const pending: PendingHydration = { touched: new Set(), cleared: false }
+    this.pendingHydration = pending
 
-        if (parsed.expiresAt && parsed.expiresAt <= Date.now()) {
-          storage.removeItem(storageKey)
-          continue
+    this.hydration = task
+      .then(() => undefined, (error) => {
+        this.handleError(error)
+      })
+      .finally(() => {
+        if (this.pendingHydration === pending) {
+          this.pendingHydration = undefined
         }
+      })
+  }
 
-        const ttl = parsed.expiresAt
-          ? Math.max(1, parsed.expiresAt - Date.now())
-          : parsed.ttl
+  private hydrateKeys(storage: IStorageAdapter, keys: string[], report?: CacheMigrationReport): Promise<void> | undefined {
+    const pending: Array<Promise<void>> = []
 
-        this.set(key, parsed.value, {
-          ttl,
-          tags: parsed.tags,
-          namespace: parsed.namespace,
-          priority: parsed.priority,
-        })
+    for (const key of keys) {
+      let item: CacheItem<T> | null | Promise<CacheItem<T> | null>
+      try {
+        item = storage.getItem<T>(key)
       }
       catch (error) {
-        this.handleError(error)
-        storage.removeItem(storageKey)
+        this.handleError(error, key)
+        this.removeFromStorage(key)
+        continue
+      }
+
+      if (isPromiseLike<CacheItem<T> | null>(item)) {
+        pending.push(Promise.resolve(item).then(
+          resolved => this.restoreEntry(key, resolved, report),
+          (error) => {
+            this.handleError(error, key)
+            this.removeFromStorage(key)
+          },
+        ))
+      }
+      else {
+        this.restoreEntry(key, item, report)
       }
     }
+
+    return pending.length > 0 ? Promise.all(pending).then(() => undefined) : undefined
   }
 
-  private saveToStorage(key: string): void {
-    const storage = this.getStorage()
-    if (!storage) {
+  private restoreEntry(key: string, stored: CacheItem<T> | null, report?: CacheMigrationReport): void {
+    if (!stored) {
       return
     }
 
-    const item = this.getItem(key)
-    const storageKey = this.options.storagePrefix + key
+    const hydration = this.pendingHydration
+    if (hydration && (hydration.cleared || hydration.touched.has(key))) {
+      return
+    }
 
-    if (!item) {
-      storage.removeItem(storageKey)
+    if (stored.expiresAt && stored.expiresAt <= this.clock.now()) {
+      this.removeFromStorage(key)
       return
     }
 
-    const payload: PersistedCacheEntry<T> = {
-      value: item.value,
-      ttl: item.ttl,
-      expiresAt: item.expiresAt,
-      tags: item.tags,
-      namespace: item.namespace,
-      priority: item.priority,
+    const item = this.migrateItem(key, stored, report)
+    if (!item) {
+      this.removeFromStorage(key)
+      return
     }
 
+    const now = this.clock.now()
+    // Sliding entries keep their full window; the saved deadline is reapplied below.
+    const absolute = item.expiresAt !== undefined && !(item.sliding && item.ttl !== undefined)
+    const ttl = absolute ? Math.max(1, item.expiresAt! - now) : item.ttl
+
+    this.restoring = true
     try {
-      storage.setItem(storageKey, JSON.stringify(payload))
+      this.set(key, item.value, {
+        ttl,
+        expiresAt: absolute ? item.expiresAt : undefined,
+        staleTtl: restoredStaleTtl(item, ttl, now),
+        tags: item.tags,
+        namespace: item.namespace,
+        priority: item.priority,
+        pinned: item.pinned,
+        sliding: item.sliding ?? false,
+        maxLifetime: item.maxExpiresAt !== undefined ? Math.max(1, item.maxExpiresAt - now) : undefined,
+        dependsOn: item.dependencies,
+        staleIfError: item.staleIfError,
+      })
+
+      const metadata = this.metadata.get(key)
+      if (metadata && item.deadline !== undefined) {
+        metadata.deadline = item.deadline
+      }
+      if (metadata?.sliding && item.expiresAt) {
+        metadata.freshUntil = metadata.freshUntil !== undefined ? item.freshUntil : undefined
+        this.updateExpiry(key, metadata, item.expiresAt)
+      }
     }
     catch (error) {
       this.handleError(error, key)
+      this.removeFromStorage(key)
+      return
+    }
+    finally {
+      this.restoring = false
+    }
+
+    if (item !== stored) {
+      // Rewrite upgraded entries so the next load finds the current version.
+      this.saveToStorage(key)
     }
   }
 
-  private removeFromStorage(key: string): void {
-    const storage = this.getStorage()
-    if (!storage) {
-      return
+  /**
+   * Brings an entry up to its namespace's schema version, or returns null when
+   * it has to be dropped.
+   */
+  private migrateItem(key: string, item: CacheItem<T>, report?: CacheMigrationReport): CacheItem<T> | null {
+    const target = this.resolveSchemaVersion(item.namespace)
+    if (target === undefined) {
+      return item
     }
 
-    try {
-      storage.removeItem(this.options.storagePrefix + key)
+    const from = item.version ?? 0
+    const drop = (reason: CacheMigrationDropReason): null => {
+      report?.dropped.push({ key, from, reason })
+      return null
     }
-    catch (error) {
-      this.handleError(error, key)
+
+    if (from === target) {
+      if (report) {
+        report.current += 1
+      }
+      return item
     }
-  }
 
-  private clearStorage(): void {
-    const storage = this.getStorage()
-    if (!storage) {
-      return
+    if (from > target) {
+      return drop('newer-version')
     }
 
-    const prefix = this.options.storagePrefix
-    const keysToRemove: string[] = []
+    const migrations = this.resolveMigrations(item.namespace)
+    let value: unknown = item.value
 
-    for (let i = 0; i < storage.length; i += 1) {
-      const key = storage.key(i)
-      if (key && key.startsWith(prefix)) {
-        keysToRemove.push(key)
+    for (let version = from + 1; version <= target; version++) {
+      const migrate = migrations?.[version]
+      if (!migrate) {
+        return drop('missing-migration')
       }
-    }
 
-    for (const key of keysToRemove) {
       try {
-        storage.removeItem(key)
+        value = migrate(value, { key, namespace: item.namespace, from: version - 1, to: version })
       }
       catch (error) {
-        this.handleError(error)
+        this.handleError(error, key)
+        return drop('failed')
+      }
+
+      if (value === undefined) {
+        return drop('rejected')
       }
     }
+
+    report?.upgraded.push({ key, from, to: target })
+    return { ...item, value: value as T, version: target }
   }
 
-  private getStorage(): Storage | null {
-    if (typeof window === 'undefined') {
-      return null
+  private resolveSchemaVersion(namespace?: string): number | undefined {
+    const { schemaVersion } = this.options
+    if (typeof schemaVersion !== 'object') {
+      return schemaVersion
+    }
+    return schemaVersion[this.resolveSchemaScope(schemaVersion, namespace)]
+  }
+
+  private resolveMigrations(namespace?: string): CacheMigrations<T> | undefined {
+    const { schemaVersion, migrations } = this.options
+    if (typeof schemaVersion !== 'object') {
+      return migrations as CacheMigrations<T> | undefined
+    }
+
+    const byNamespace = migrations as Record<string, CacheMigrations<T>> | undefined
+    return byNamespace?.[this.resolveSchemaScope(schemaVersion, namespace)]
+  }
+
+  /**
+   * Namespaces without their own version share the `'*'` entry.
+   */
+  private resolveSchemaScope(versions: Record<string, number>, namespace?: string): string {
+    return namespace !== undefined && Object.prototype.hasOwnProperty.call(versions, namespace)
+      ? namespace
+      : '*'
+  }
+
+  private importEntry(item: CacheItem<T>): void {
+    const now = this.clock.now()
+
+    this.restoring = true
+    try {
+      this.set(item.key, item.value, {
+        ttl: item.ttl,
+        staleTtl: restoredStaleTtl(item, item.ttl, now),
+        tags: item.tags,
+        namespace: item.namespace,
+        priority: item.priority,
+        pinned: item.pinned,
+        sliding: item.sliding ?? false,
+        maxLifetime: item.maxExpiresAt !== undefined ? Math.max(1, item.maxExpiresAt - now) : undefined,
+        dependsOn: item.dependencies,
+        staleIfError: item.staleIfError,
+      })
+    }
+    finally {
+      this.restoring = false
+    }
+
+    const metadata = this.metadata.get(item.key)
+    if (!metadata) {
+      return
+    }
+
+    metadata.deadline = item.deadline
+    this.pendingHydration?.touched.add(item.key)
+    // Re-admit the entry with its original counters and position.
+    this.strategy.restore?.(item)
+    if (item.expiresAt !== undefined) {
+      metadata.freshUntil = metadata.freshUntil !== undefined ? item.freshUntil : undefined
+      this.updateExpiry(item.key, metadata, item.expiresAt)
+    }
+
+    if (this.options.enablePersistence) {
+      this.saveToStorage(item.key)
+    }
+  }
+
+  private saveToStorage(key: string): void {
+    const storage = this.persistence
+    // Commits write every touched key once they succeed.
+    if (!storage || this.journal) {
+      return
+    }
+
+    const item = this.readItem(key)
+
+    if (!item) {
+      this.removeFromStorage(key)
+      return
+    }
+
+    const payload: CacheItem<T> = {
+      key,
+      value: item.value,
+      createdAt: item.createdAt,
+      lastAccessedAt: item.lastAccessedAt,
+      accessCount: item.accessCount,
+      ttl: item.ttl,
+      expiresAt: item.expiresAt,
+      freshUntil: item.freshUntil,
+      tags: item.tags,
+      namespace: item.namespace,
+      priority: item.priority,
+      pinned: item.pinned,
+      sliding: item.sliding,
+      maxExpiresAt: item.maxExpiresAt,
+      deadline: item.deadline,
+      version: item.version,
+      dependencies: item.dependencies,
+      staleIfError: item.staleIfError,
+    }
+
+    this.runStorageTask(() => storage.setItem(key, payload), key)
+  }
+
+  private removeFromStorage(key: string): void {
+    const storage = this.persistence
+    if (!storage || this.journal) {
+      return
+    }
+
+    this.runStorageTask(() => storage.removeItem(key), key)
+  }
+
+  private clearStorage(): void {
+    const storage = this.persistence
+    if (!storage) {
+      return
     }
 
+    this.runStorageTask(() => storage.clear())
+  }
+
+  private runStorageTask(task: () => Promise<void> | void, key?: string): void {
     try {
-      return this.options.storageType === 'sessionStorage'
-        ? window.sessionStorage
-        : window.localStorage
+      const result = task()
+      if (isPromiseLike<void>(result)) {
+        void Promise.resolve(result).catch((error) => {
+          this.handleError(error, key)
+        })
+      }
     }
     catch (error) {
-      this.handleError(error)
-      return null
+      this.handleError(error, key)
     }
   }
 
@@ -1086,6 +2780,38 @@ export class CacheManager<T = any> {
     }
   }
 
+  private assertSnapshot(snapshot: CacheSnapshot<T>): void {
+    const valid = !!snapshot
+      && snapshot.format === SNAPSHOT.FORMAT
+      && typeof snapshot.version === 'number'
+      && snapshot.version <= SNAPSHOT.VERSION
+      && Array.isArray(snapshot.entries)
+
+    if (!valid) {
+      const error = this.createCacheError(
+        `Unsupported cache snapshot (expected format "${SNAPSHOT.FORMAT}" up to version ${SNAPSHOT.VERSION}).`,
+        CacheErrorCode.INVALID_SNAPSHOT,
+      )
+      this.handleError(error)
+      throw error
+    }
+  }
+
+  private assertEntrySize(key: string, size: number): void {
+    const limits = [this.options.maxEntrySize, this.options.maxMemory]
+      .filter((limit): limit is number => limit !== undefined)
+
+    if (limits.length > 0 && size > Math.min(...limits)) {
+      const error = this.createCacheError(
+        `Cache entry is too large (${size} bytes).`,
+        CacheErrorCode.ENTRY_TOO_LARGE,
+        key,
+      )
+      this.handleError(error, key)
+      throw error
+    }
+  }
+
   private assertTTL(ttl?: number): void {
     if (ttl !== undefined && (typeof ttl !== 'number' || Number.isNaN(ttl) || ttl < 0)) {
       const error = this.createCacheError('Invalid ttl value.', CacheErrorCode.INVALID_TTL)
@@ -1094,6 +2820,14 @@ export class CacheManager<T = any> {
     }
   }
 
+  private assertRefreshAhead(refreshAhead: number): void {
+    if (!(refreshAhead > 0 && refreshAhead < 1)) {
+      const error = this.createCacheError('refreshAhead must be a ratio between 0 and 1.', CacheErrorCode.INVALID_TTL)
+      this.handleError(error)
+      throw error
+    }
+  }
+
   private createCacheError(message: string, code: CacheErrorCode, key?: string, cause?: Error): CacheError {
     const error = new Error(message) as CacheError
     error.name = 'CacheError'
@@ -1104,15 +2838,20 @@ export class CacheManager<T = any> {
   }
 
   private handlePluginError(plugin: CachePlugin<T>, hook: string, error: unknown, key?: string): void {
-    this.handleError(
-      this.createCacheError(
-        `Plugin "${plugin.name}" failed in hook "${hook}".`,
-        CacheErrorCode.UNKNOWN_ERROR,
-        key,
-        error as Error,
-      ),
+    // Hooks are strict while a transaction commits: a failure aborts it.
+    const strict = this.journal !== undefined
+    const cacheError = this.createCacheError(
+      `Plugin "${plugin.name}" failed in hook "${hook}".`,
+      strict ? CacheErrorCode.TRANSACTION_FAILED : CacheErrorCode.UNKNOWN_ERROR,
       key,
+      error as Error,
     )
+
+    this.handleError(cacheError, key)
+
+    if (strict) {
+      throw cacheError
+    }
   }
 
   private handleError(error: unknown, key?: string): void {
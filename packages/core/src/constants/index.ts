@@ -41,6 +41,16 @@ export const STORAGE = {
   INDEXEDDB_VERSION: 1,
 } as const
 
+/**
+ * 快照格式常量
+ */
+export const SNAPSHOT = {
+  /** 快照文档格式标识 */
+  FORMAT: 'ldesign-cache-snapshot',
+  /** 当前快照格式版本 */
+  VERSION: 1,
+} as const
+
 /**
  * 错误消息常量
  */
@@ -49,6 +59,10 @@ export const ERROR_MESSAGES = {
   INVALID_VALUE: '缓存值不能为 undefined',
   INVALID_TTL: 'TTL 必须是正数',
   INVALID_MAX_SIZE: '最大容量必须是正数',
+  INVALID_STRATEGY_NAME: '策略名称不能为空，且不能与内置策略同名',
+  MISSING_KEY_PARAM: '缓存键模板缺少参数',
+  INVALID_KEY_PARAM: '缓存键参数不能为空，且不能包含 : * ?',
+  INVALID_EXPIRY_INTERVAL: '过期间隔必须是正数',
   STORAGE_NOT_AVAILABLE: '存储不可用',
   SERIALIZATION_ERROR: '序列化失败',
   DESERIALIZATION_ERROR: '反序列化失败',
@@ -7,9 +7,26 @@ export type {
   BatchOptions,
   BatchResult,
   BatchSetEntry,
+  CacheableValue,
+  CacheChange,
+  CacheChangeType,
+  CacheClock,
   CacheError,
   CacheItem,
   CacheItemMetadata,
+  CacheKey,
+  CacheKeyDefinition,
+  CacheKeyParam,
+  CacheKeyParams,
+  CacheKeyTemplateParams,
+  CacheKeyValue,
+  CacheLoader,
+  CacheLookup,
+  CacheMigration,
+  CacheMigrationContext,
+  CacheMigrationDropReason,
+  CacheMigrationReport,
+  CacheMigrations,
   CacheOptions,
   CachePlugin,
   CachePluginContext,
@@ -17,16 +34,36 @@ export type {
   CacheQueryClientLike,
   CacheQueryOptions,
   CacheQueryResult,
+  CacheSchema,
+  CacheSnapshot,
   CacheStats,
-  CacheableValue,
+  CacheTieredStats,
+  CacheTierStats,
+  CacheTransaction,
+  CacheWatchListener,
   EvictionReason,
+  ExpiryPolicy,
+  ExpiryPolicyOptions,
+  GetOrSetOptions,
   ICacheStrategy,
+  ImportSnapshotOptions,
+  ImportSnapshotResult,
+  InvalidateOptions,
+  InvalidatePatternOptions,
   InvalidatePredicate,
+  InvalidateScope,
+  InvalidateTagOptions,
+  PerformanceMetrics,
   ReadonlyCacheItem,
+  RegisterLoaderOptions,
   Serializer,
   SetOptions,
+  SnapshotImportMode,
   StorageType,
-  PerformanceMetrics,
+  StrategyContext,
+  StrategyFactory,
+  TieredCacheOptions,
+  WatchOptions,
 } from './types'
 
 export {
@@ -36,11 +73,13 @@ export {
 } from './types'
 
 export { CacheManager, createCacheManager } from './cache-manager'
+export { CacheNamespace } from './namespace'
 export { CacheQueryClient, createCacheQueryClient } from './query'
 
 export { FIFOCache } from './strategies/fifo'
 export { LFUCache } from './strategies/lfu'
 export { LRUCache } from './strategies/lru'
+export { getStrategyFactory, registerStrategy, unregisterStrategy } from './strategies/registry'
 export { TTLCache } from './strategies/ttl'
 
 export {
@@ -76,23 +115,40 @@ export type {
   PerformanceStats,
 } from './plugins'
 
+export { createTieredCacheManager, TieredCacheManager } from './tiered'
+
 export {
   debounce,
   createKeyedDebounce,
   createKeyedThrottle,
+  createPatternMatcher,
+  defineCacheKey,
+  defineCacheSchema,
   delay,
+  endOfDay,
   estimateCacheItemSize,
   estimateMemoryUsage,
+  ExpiryHeap,
   formatBytes,
   generateCacheKey,
   generateId,
+  getPatternPrefix,
+  globToRegExp,
   hashString,
+  isCacheKey,
+  isDescendantPath,
   isExpired,
+  isGlobPattern,
   isIndexedDBAvailable,
   isStorageAvailable,
+  ManualClock,
   measureTime,
   MemoryTracker,
+  nextInterval,
   parseCacheKey,
+  PATTERN_SEPARATOR,
+  PrefixIndex,
+  systemClock,
   throttle,
   TimerManager,
   validateKey,
@@ -113,6 +169,7 @@ export {
   DEFAULT_CONFIG,
   ERROR_MESSAGES,
   PERFORMANCE,
+  SNAPSHOT,
   STORAGE,
   VERSION,
 } from './constants'
@@ -0,0 +1 @@
+export { CacheNamespace } from './view'
@@ -0,0 +1,165 @@
+/**
+ * Namespace views: a lightweight handle onto one namespace of a CacheManager.
+ * Keys are stored as `<namespace>:<key>` so views never collide, and every
+ * operation is scoped to the view's namespace and its children.
+ */
+
+import type { CacheManager } from '../cache-manager'
+import type {
+  BatchOptions,
+  BatchResult,
+  CacheItem,
+  CacheStats,
+  InvalidateOptions,
+  InvalidatePredicate,
+  SetOptions,
+} from '../types'
+import { createPatternMatcher, PATTERN_SEPARATOR } from '../utils/pattern'
+
+export class CacheNamespace<T = any> {
+  readonly name: string
+
+  private readonly prefix: string
+
+  constructor(private readonly cache: CacheManager<T>, name: string) {
+    this.name = name
+    this.prefix = `${name}${PATTERN_SEPARATOR}`
+  }
+
+  /**
+   * Returns the view for a child namespace (`app` -> `app:users`).
+   */
+  namespace(name: string): CacheNamespace<T> {
+    return this.cache.namespace(`${this.prefix}${name}`)
+  }
+
+  get(key: string): T | undefined {
+    return this.cache.get(this.scope(key))
+  }
+
+  set(key: string, value: T, ttl?: number): void
+  set(key: string, value: T, options?: SetOptions): void
+  set(key: string, value: T, ttlOrOptions?: number | SetOptions): void {
+    const options = typeof ttlOrOptions === 'number' ? { ttl: ttlOrOptions } : ttlOrOptions
+    this.cache.set(this.scope(key), value, { ...options, namespace: this.name })
+  }
+
+  delete(key: string): boolean {
+    return this.cache.delete(this.scope(key))
+  }
+
+  has(key: string): boolean {
+    return this.cache.has(this.scope(key))
+  }
+
+  getItem(key: string): CacheItem<T> | undefined {
+    const item = this.cache.getItem(this.scope(key))
+    return item ? { ...item, key } : undefined
+  }
+
+  /**
+   * Keys relative to this view, including those written through child views
+   * (`users:1` for `app:users:1` seen from `app`).
+   */
+  keys(): string[] {
+    return this.cache.namespaceKeys(this.name, { descendants: true }).map(key => this.unscope(key))
+  }
+
+  get size(): number {
+    return this.cache.namespaceKeys(this.name, { descendants: true }).length
+  }
+
+  /**
+   * Removes every entry in this namespace and its children.
+   */
+  clear(): void {
+    this.cache.invalidateByNamespace(this.name, { descendants: true })
+  }
+
+  mget(keys: string[]): Map<string, T> {
+    const result = new Map<string, T>()
+    for (const [key, value] of this.cache.mget(keys.map(key => this.scope(key)))) {
+      result.set(this.unscope(key), value)
+    }
+    return result
+  }
+
+  mset(entries: Array<[string, T]>, options: BatchOptions = {}): BatchResult<void> {
+    const { onProgress } = options
+    const result = this.cache.mset(entries.map(([key, value]) => [this.scope(key), value]), {
+      ...options,
+      namespace: this.name,
+      onProgress: onProgress && ((completed, total, key) => onProgress(completed, total, this.unscope(key))),
+    })
+    return this.unscopeResult(result)
+  }
+
+  mdel(keys: string[], options: BatchOptions = {}): BatchResult<boolean> {
+    const { onProgress } = options
+    const result = this.cache.mdel(keys.map(key => this.scope(key)), {
+      ...options,
+      onProgress: onProgress && ((completed, total, key) => onProgress(completed, total, this.unscope(key))),
+    })
+    return this.unscopeResult(result)
+  }
+
+  invalidateByTag(tag: string, options: InvalidateOptions = {}): number {
+    return this.cache.invalidateByTag(tag, { ...options, namespace: this.name })
+  }
+
+  /**
+   * Invalidates keys of this view matching a glob or RegExp. Patterns are
+   * matched against relative keys.
+   */
+  invalidateByPattern(pattern: string | RegExp): number {
+    if (typeof pattern === 'string') {
+      return this.cache.invalidateByPattern(`${this.prefix}${pattern}`)
+    }
+
+    const matches = createPatternMatcher(pattern)
+    let removed = 0
+    for (const key of this.keys()) {
+      if (matches(key) && this.delete(key)) {
+        removed += 1
+      }
+    }
+    return removed
+  }
+
+  invalidateWhere(predicate: InvalidatePredicate<T>): number {
+    return this.cache.invalidateWhere(item =>
+      item.key.startsWith(this.prefix) && predicate({ ...item, key: this.unscope(item.key) }),
+    )
+  }
+
+  /**
+   * Counters cover lookups, evictions and expirations of keys under this
+   * namespace (children included) since the view was first created.
+   */
+  getStats(): CacheStats {
+    return this.cache.getNamespaceStats(this.name)
+  }
+
+  private scope(key: string): string {
+    return `${this.prefix}${key}`
+  }
+
+  private unscope(key: string): string {
+    return key.slice(this.prefix.length)
+  }
+
+  private unscopeResult<R>(result: BatchResult<R>): BatchResult<R> {
+    const results = new Map<string, R>()
+    for (const [key, value] of result.results) {
+      results.set(this.unscope(key), value)
+    }
+
+    return {
+      ...result,
+      succeeded: result.succeeded.map(key => this.unscope(key)),
+      failed: result.failed.map(failure => ({ ...failure, key: this.unscope(failure.key) })),
+      results,
+      allSucceeded: result.failed.length === 0,
+    }
+  }
+}
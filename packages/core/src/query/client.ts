@@ -1,17 +1,35 @@
-﻿import type { CacheItem, CacheQueryClientLike, CacheQueryOptions, CacheQueryResult, SetOptions } from '../types'
+﻿import type { CacheClock, CacheItem, CacheQueryClientLike, CacheQueryOptions, CacheQueryResult, SetOptions } from '../types'
+import { systemClock } from '../utils/clock'
 
 interface QueryCacheAdapter {
   get<T = unknown>(key: string): T | undefined
   getItem<T = unknown>(key: string): CacheItem<T> | undefined
   set<T = unknown>(key: string, value: T, options?: number | SetOptions): void
+  isMissing?: (key: string) => boolean
+  setMissing?: (key: string, ttl?: number) => void
+  getStaleItem?: <T = unknown>(key: string) => CacheItem<T> | undefined
 }
 
 const DEFAULT_RETRY_DELAY = 300
 
+/**
+ * Staleness comes from the entry's soft expiry. Entries written without a
+ * soft ttl (outside `fetch`) fall back to `staleTime` since the last access.
+ */
+function isStale(item: CacheItem<unknown>, staleTime: number, updatedAt: number, now: number): boolean {
+  if (item.freshUntil !== undefined && item.freshUntil !== item.expiresAt) {
+    return item.freshUntil <= now
+  }
+  return staleTime > 0 ? (now - updatedAt) >= staleTime : false
+}
+
 export class CacheQueryClient implements CacheQueryClientLike {
   private readonly inflight = new Map<string, Promise<CacheQueryResult<any>>>()
 
-  constructor(private readonly cache: QueryCacheAdapter) {}
+  constructor(
+    private readonly cache: QueryCacheAdapter,
+    private readonly clock: CacheClock = systemClock,
+  ) {}
 
   async fetch<T = unknown>(options: CacheQueryOptions<T>): Promise<CacheQueryResult<T>> {
     const {
@@ -24,19 +42,27 @@ export class CacheQueryClient implements CacheQueryClientLike {
       force = false,
       retry = 0,
       retryDelay = DEFAULT_RETRY_DELAY,
-      ttl,
-      tags,
-      namespace,
-      priority,
+      negativeTTL,
+      ...setOptions
     } = options
 
     const requestKey = dedupeKey ?? key
 
     if (!force) {
+      if (this.cache.isMissing?.(key)) {
+        return {
+          data: undefined as T,
+          fromCache: true,
+          stale: false,
+          updatedAt: this.clock.now(),
+          missing: true,
+        }
+      }
+
       const cachedItem = this.cache.getItem<T>(key)
       if (cachedItem) {
         const updatedAt = cachedItem.lastAccessedAt || cachedItem.createdAt
-        const stale = staleTime > 0 ? (Date.now() - updatedAt) >= staleTime : false
+        const stale = isStale(cachedItem, staleTime, updatedAt, this.clock.now())
 
         if (!stale) {
           return {
@@ -72,21 +98,24 @@ export class CacheQueryClient implements CacheQueryClientLike {
       {
         retry,
         retryDelay,
-        ttl,
-        tags,
-        namespace,
-        priority,
+        negativeTTL,
+        setOptions: {
+          ...setOptions,
+          staleTtl: setOptions.staleTtl ?? (staleTime > 0 ? staleTime : undefined),
+        },
       },
     )
 
     if (dedupe) {
       this.inflight.set(requestKey, task)
-      task.finally(() => {
+      const release = () => {
         const current = this.inflight.get(requestKey)
         if (current === task) {
           this.inflight.delete(requestKey)
         }
-      })
+      }
+      // Rejections are surfaced to the caller through `task` itself.
+      task.then(release, release)
     }
 
     return task
@@ -119,24 +148,29 @@ export class CacheQueryClient implements CacheQueryClientLike {
     options: {
       retry: number
       retryDelay: number
-      ttl?: number
-      tags?: string[]
-      namespace?: string
-      priority?: number
+      negativeTTL?: number
+      setOptions: SetOptions
     },
   ): Promise<CacheQueryResult<T>> {
-    const { retry, retryDelay, ttl, tags, namespace, priority } = options
+    const { retry, retryDelay, negativeTTL, setOptions } = options
     let attempt = 0
 
     for (;;) {
       try {
         const data = await fetcher()
-        this.cache.set(key, data, {
-          ttl,
-          tags,
-          namespace,
-          priority,
-        })
+
+        if (data == null && negativeTTL !== undefined && this.cache.setMissing) {
+          this.cache.setMissing(key, negativeTTL)
+          return {
+            data,
+            fromCache: false,
+            stale: false,
+            updatedAt: this.clock.now(),
+            missing: true,
+          }
+        }
+
+        this.cache.set(key, data, setOptions)
 
         const item = this.cache.getItem<T>(key)
 
@@ -144,12 +178,22 @@ export class CacheQueryClient implements CacheQueryClientLike {
           data,
           fromCache: false,
           stale: false,
-          updatedAt: item?.lastAccessedAt || item?.createdAt || Date.now(),
+          updatedAt: item?.lastAccessedAt || item?.createdAt || this.clock.now(),
         }
       }
       catch (error) {
         attempt++
         if (attempt > retry) {
+          const fallback = this.cache.getStaleItem?.<T>(key)
+          if (fallback) {
+            return {
+              data: fallback.value,
+              fromCache: true,
+              stale: true,
+              updatedAt: fallback.lastAccessedAt || fallback.createdAt,
+              error: error as Error,
+            }
+          }
           throw error
         }
 
@@ -159,6 +203,6 @@ export class CacheQueryClient implements CacheQueryClientLike {
   }
 }
 
-export function createCacheQueryClient(cache: QueryCacheAdapter): CacheQueryClient {
-  return new CacheQueryClient(cache)
+export function createCacheQueryClient(cache: QueryCacheAdapter, clock?: CacheClock): CacheQueryClient {
+  return new CacheQueryClient(cache, clock)
 }
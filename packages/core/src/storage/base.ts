@@ -3,7 +3,7 @@
  * @module @ldesign/cache/core/storage/base
  */
 
-import type { CacheItem, Serializer } from '../types'
+import type { CacheClock, CacheItem, Serializer } from '../types'
 
 // 内部使用的序列化器类型别名
 type AnySerializer = Serializer<unknown>
@@ -48,6 +48,12 @@ export interface IStorageAdapter {
    * @returns 是否可用
    */
   isAvailable(): boolean
+
+  /**
+   * 使用缓存管理器的时钟判断过期（可选）
+   * @param clock - 时钟
+   */
+  useClock?: (clock: CacheClock) => void
 }
 
 /**
@@ -3,9 +3,10 @@
  * @module @ldesign/cache/core/storage/indexeddb
  */
 
-import type { CacheItem, Serializer } from '../types'
+import type { CacheClock, CacheItem, Serializer } from '../types'
 import { BaseStorageAdapter } from './base'
 import { STORAGE } from '../constants'
+import { systemClock } from '../utils/clock'
 
 /**
  * IndexedDB 存储适配器配置选项
@@ -19,6 +20,8 @@ export interface IndexedDBAdapterOptions {
   version?: number
   /** 键前缀 */
   prefix?: string
+  /** 判断过期使用的时钟，默认为系统时钟 */
+  clock?: CacheClock
 }
 
 /**
@@ -51,6 +54,7 @@ export class IndexedDBStorageAdapter extends BaseStorageAdapter {
   private version: number
   private prefix: string
   private initPromise: Promise<void> | null = null
+  private clock: CacheClock
 
   constructor(serializer: Serializer, options: IndexedDBAdapterOptions = {}) {
     super(serializer)
@@ -58,6 +62,15 @@ export class IndexedDBStorageAdapter extends BaseStorageAdapter {
     this.storeName = options.storeName ?? STORAGE.INDEXEDDB_STORE
     this.version = options.version ?? STORAGE.INDEXEDDB_VERSION
     this.prefix = options.prefix ?? ''
+    this.clock = options.clock ?? systemClock
+  }
+
+  /**
+   * 使用缓存管理器的时钟判断过期
+   * @param clock - 时钟
+   */
+  useClock(clock: CacheClock): void {
+    this.clock = clock
   }
 
   /**
@@ -174,7 +187,7 @@ export class IndexedDBStorageAdapter extends BaseStorageAdapter {
           }
 
           // 检查是否过期
-          if (result.expiresAt && Date.now() > result.expiresAt) {
+          if (result.expiresAt && this.clock.now() > result.expiresAt) {
             // 异步删除过期项
             this.removeItem(key).catch(() => {})
             resolve(null)
@@ -347,7 +360,7 @@ export class IndexedDBStorageAdapter extends BaseStorageAdapter {
 
         request.onsuccess = () => {
           const result = request.result as StoredItem<T> | undefined
-          if (result && (!result.expiresAt || Date.now() <= result.expiresAt)) {
+          if (result && (!result.expiresAt || this.clock.now() <= result.expiresAt)) {
             results.set(key, this.storedItemToCacheItem(result))
           }
           else {
@@ -434,7 +447,7 @@ export class IndexedDBStorageAdapter extends BaseStorageAdapter {
    */
   async cleanup(): Promise<number> {
     const db = await this.ensureInitialized()
-    const now = Date.now()
+    const now = this.clock.now()
     let count = 0
 
     return new Promise((resolve, reject) => {
@@ -486,7 +499,7 @@ export class IndexedDBStorageAdapter extends BaseStorageAdapter {
 
       request.onsuccess = () => {
         const items = request.result as Array<StoredItem<T>>
-        const now = Date.now()
+        const now = this.clock.now()
 
         for (const item of items) {
           // 检查前缀和过期时间
@@ -612,11 +625,18 @@ export class IndexedDBStorageAdapter extends BaseStorageAdapter {
       lastAccessedAt: item.lastAccessedAt,
       accessCount: item.accessCount,
       expiresAt: item.expiresAt,
+      freshUntil: item.freshUntil,
       ttl: item.ttl,
       tags: item.tags ?? [],
       namespace: item.namespace,
+      priority: item.priority,
+      pinned: item.pinned,
+      sliding: item.sliding,
+      maxExpiresAt: item.maxExpiresAt,
+      deadline: item.deadline,
       version: item.version,
       dependencies: item.dependencies,
+      staleIfError: item.staleIfError,
     }
   }
 
@@ -636,11 +656,18 @@ export class IndexedDBStorageAdapter extends BaseStorageAdapter {
       lastAccessedAt: stored.lastAccessedAt,
       accessCount: stored.accessCount,
       expiresAt: stored.expiresAt,
+      freshUntil: stored.freshUntil,
       ttl: stored.ttl,
       tags: stored.tags.length > 0 ? stored.tags : undefined,
       namespace: stored.namespace,
+      priority: stored.priority,
+      pinned: stored.pinned,
+      sliding: stored.sliding,
+      maxExpiresAt: stored.maxExpiresAt,
+      deadline: stored.deadline,
       version: stored.version,
       dependencies: stored.dependencies,
+      staleIfError: stored.staleIfError,
     }
   }
 }
@@ -655,11 +682,18 @@ interface StoredItem<T> {
   lastAccessedAt: number
   accessCount: number
   expiresAt?: number
+  freshUntil?: number
   ttl?: number
   tags: string[]
   namespace?: string
+  priority?: number
+  pinned?: boolean
+  sliding?: boolean
+  maxExpiresAt?: number
+  deadline?: number
   version?: number
   dependencies?: string[]
+  staleIfError?: number
 }
 
 /**
@@ -6,7 +6,8 @@
  * @module @ldesign/cache/core/strategies/fifo
  */
 
-import type { CacheItem } from '../types'
+import type { CacheClock, CacheItem } from '../types'
+import { systemClock } from '../utils/clock'
 
 /**
  * FIFO 缓存节点
@@ -21,10 +22,10 @@ class FIFONode<T = any> {
   expiresAt?: number
   ttl?: number
 
-  constructor(key: string, value: T, ttl?: number) {
+  constructor(key: string, value: T, ttl: number | undefined, now: number) {
     this.key = key
     this.value = value
-    this.createdAt = Date.now()
+    this.createdAt = now
     this.lastAccessedAt = this.createdAt
     this.accessCount = 0
     this.ttl = ttl
@@ -51,15 +52,15 @@ class FIFONode<T = any> {
   /**
    * 检查是否过期
    */
-  isExpired(): boolean {
-    return this.expiresAt !== undefined && Date.now() > this.expiresAt
+  isExpired(now: number): boolean {
+    return this.expiresAt !== undefined && now > this.expiresAt
   }
 
   /**
    * 更新访问信息
    */
-  updateAccess(): void {
-    this.lastAccessedAt = Date.now()
+  updateAccess(now: number): void {
+    this.lastAccessedAt = now
     this.accessCount++
   }
 }
@@ -93,12 +94,14 @@ export class FIFOCache<T = any> {
   private queue: string[]
   private maxSize: number
   private defaultTTL?: number
+  private clock: CacheClock
 
-  constructor(maxSize: number = 100, defaultTTL?: number) {
+  constructor(maxSize: number = 100, defaultTTL?: number, clock: CacheClock = systemClock) {
     this.cache = new Map()
     this.queue = []
     this.maxSize = maxSize
     this.defaultTTL = defaultTTL
+    this.clock = clock
   }
 
   /**
@@ -113,13 +116,13 @@ export class FIFOCache<T = any> {
     }
 
     // 检查是否过期
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return undefined
     }
 
     // 更新访问信息（但不改变队列顺序）
-    node.updateAccess()
+    node.updateAccess(this.clock.now())
 
     return node.value
   }
@@ -137,10 +140,10 @@ export class FIFOCache<T = any> {
     // 如果键已存在，只更新值，不改变队列位置
     if (existingNode) {
       existingNode.value = value
-      existingNode.lastAccessedAt = Date.now()
+      existingNode.lastAccessedAt = this.clock.now()
       const finalTTL = ttl ?? this.defaultTTL
       existingNode.ttl = finalTTL
-      existingNode.expiresAt = finalTTL !== undefined ? Date.now() + finalTTL : undefined
+      existingNode.expiresAt = finalTTL !== undefined ? this.clock.now() + finalTTL : undefined
       return undefined
     }
 
@@ -152,7 +155,7 @@ export class FIFOCache<T = any> {
 
     // 创建新节点
     const finalTTL = ttl ?? this.defaultTTL
-    const newNode = new FIFONode(key, value, finalTTL)
+    const newNode = new FIFONode(key, value, finalTTL, this.clock.now())
 
     // 添加到缓存和队列
     this.cache.set(key, newNode)
@@ -195,7 +198,7 @@ export class FIFOCache<T = any> {
       return false
     }
 
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return false
     }
@@ -250,7 +253,7 @@ export class FIFOCache<T = any> {
       return undefined
     }
 
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return undefined
     }
@@ -258,13 +261,108 @@ export class FIFOCache<T = any> {
     return node.toCacheItem()
   }
 
+  /**
+   * 查看缓存值，不更新访问顺序、频率与访问计数
+   *
+   * 已过期但尚未清理的项也会返回，由调用方判断过期。
+   * @param key - 缓存键
+   * @returns 缓存值，不存在返回 undefined
+   */
+  peek(key: string): T | undefined {
+    return this.cache.get(key)?.value
+  }
+
+  /**
+   * 查看缓存项详情，不更新访问顺序、频率与访问计数
+   * @param key - 缓存键
+   * @returns 缓存项详情，不存在返回 undefined
+   */
+  peekItem(key: string): CacheItem<T> | undefined {
+    return this.cache.get(key)?.toCacheItem()
+  }
+
+  /**
+   * 刷新缓存项的过期时间
+   * @param key - 缓存键
+   * @param ttl - 新的 TTL（可选，默认使用原 TTL）
+   * @returns 是否刷新成功
+   */
+  refresh(key: string, ttl?: number): boolean {
+    const node = this.cache.get(key)
+    if (!node) {
+      return false
+    }
+
+    if (node.isExpired(this.clock.now())) {
+      this.delete(key)
+      return false
+    }
+
+    if (ttl !== undefined) {
+      node.ttl = ttl
+    }
+
+    if (node.ttl !== undefined) {
+      node.expiresAt = this.clock.now() + node.ttl
+    }
+
+    return true
+  }
+
+  /**
+   * 按淘汰顺序返回所有键（最先被淘汰的在前）
+   * @returns 键数组
+   */
+  evictionOrder(): string[] {
+    return [...this.queue]
+  }
+
+  /**
+   * 按淘汰顺序查找下一个键，不移除任何项
+   * @param after - 起始键，省略时返回最先被淘汰的键
+   * @returns 紧随 after 之后被淘汰的键
+   */
+  nextVictim(after?: string): string | undefined {
+    if (after === undefined) {
+      return this.queue[0]
+    }
+    const index = this.queue.indexOf(after)
+    return index > -1 ? this.queue[index + 1] : undefined
+  }
+
+  /**
+   * 按快照恢复缓存项：保留时间戳和访问次数，并放到队列末尾
+   * @param item - 缓存项
+   * @param before - 可选，恢复后紧排在该键之前被淘汰
+   * @returns 被淘汰的项（如果有）
+   */
+  restore(item: CacheItem<T>, before?: string): CacheItem<T> | undefined {
+    this.delete(item.key)
+    const evicted = this.set(item.key, item.value, item.ttl)
+
+    const node = this.cache.get(item.key)!
+    node.createdAt = item.createdAt
+    node.lastAccessedAt = item.lastAccessedAt
+    node.accessCount = item.accessCount
+    node.ttl = item.ttl
+    node.expiresAt = item.expiresAt
+
+    const index = before !== undefined && before !== item.key ? this.queue.indexOf(before) : -1
+    if (index > -1) {
+      this.queue.pop()
+      this.queue.splice(index, 0, item.key)
+    }
+
+    return evicted
+  }
+
   /**
    * 清理所有过期项
    * @returns 清理的项数
    */
   cleanup(): number {
     let count = 0
-    const now = Date.now()
+    const now = this.clock.now()
 
     // 使用副本遍历，避免在遍历时修改
     const keys = Array.from(this.cache.keys())
@@ -281,15 +379,21 @@ export class FIFOCache<T = any> {
 
   /**
    * 淘汰最早添加的项（队列头部）
+   * @param filter - 可选过滤器，返回 false 的键会被跳过
    * @returns 被淘汰的项
    */
-  private evict(): CacheItem<T> | undefined {
+  evict(filter?: (key: string) => boolean): CacheItem<T> | undefined {
     if (this.queue.length === 0) {
       return undefined
     }
 
-    // 获取队列头部的键（最早添加的）
-    const keyToEvict = this.queue.shift()
+    // 获取队列中最早添加且允许淘汰的键
+    const index = filter ? this.queue.findIndex(key => filter(key)) : 0
+    if (index < 0) {
+      return undefined
+    }
+
+    const [keyToEvict] = this.queue.splice(index, 1)
     if (!keyToEvict) {
       return undefined
     }
@@ -6,5 +6,6 @@
 export * from './lru'
 export * from './lfu'
 export * from './fifo'
+export * from './registry'
 export * from './ttl'
 
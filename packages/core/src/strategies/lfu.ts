@@ -6,7 +6,8 @@
  * @module @ldesign/cache/core/strategies/lfu
  */
 
-import type { CacheItem } from '../types'
+import type { CacheClock, CacheItem } from '../types'
+import { systemClock } from '../utils/clock'
 
 /**
  * LFU 缓存节点
@@ -22,11 +23,11 @@ class LFUNode<T = any> {
   expiresAt?: number
   ttl?: number
 
-  constructor(key: string, value: T, ttl?: number) {
+  constructor(key: string, value: T, ttl: number | undefined, now: number) {
     this.key = key
     this.value = value
     this.frequency = 1
-    this.createdAt = Date.now()
+    this.createdAt = now
     this.lastAccessedAt = this.createdAt
     this.accessCount = 1
     this.ttl = ttl
@@ -53,17 +54,17 @@ class LFUNode<T = any> {
   /**
    * 检查是否过期
    */
-  isExpired(): boolean {
-    return this.expiresAt !== undefined && Date.now() > this.expiresAt
+  isExpired(now: number): boolean {
+    return this.expiresAt !== undefined && now > this.expiresAt
   }
 
   /**
    * 增加访问频率
    */
-  incrementFrequency(): void {
+  incrementFrequency(now: number): void {
     this.frequency++
     this.accessCount++
-    this.lastAccessedAt = Date.now()
+    this.lastAccessedAt = now
   }
 }
 
@@ -100,13 +101,15 @@ export class LFUCache<T = any> {
   private minFrequency: number
   private maxSize: number
   private defaultTTL?: number
+  private clock: CacheClock
 
-  constructor(maxSize: number = 100, defaultTTL?: number) {
+  constructor(maxSize: number = 100, defaultTTL?: number, clock: CacheClock = systemClock) {
     this.cache = new Map()
     this.frequencyMap = new Map()
     this.minFrequency = 0
     this.maxSize = maxSize
     this.defaultTTL = defaultTTL
+    this.clock = clock
   }
 
   /**
@@ -121,7 +124,7 @@ export class LFUCache<T = any> {
     }
 
     // 检查是否过期
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return undefined
     }
@@ -147,7 +150,7 @@ export class LFUCache<T = any> {
       existingNode.value = value
       const finalTTL = ttl ?? this.defaultTTL
       existingNode.ttl = finalTTL
-      existingNode.expiresAt = finalTTL !== undefined ? Date.now() + finalTTL : undefined
+      existingNode.expiresAt = finalTTL !== undefined ? this.clock.now() + finalTTL : undefined
       this.updateFrequency(existingNode)
       return undefined
     }
@@ -160,7 +163,7 @@ export class LFUCache<T = any> {
 
     // 创建新节点
     const finalTTL = ttl ?? this.defaultTTL
-    const newNode = new LFUNode(key, value, finalTTL)
+    const newNode = new LFUNode(key, value, finalTTL, this.clock.now())
 
     // 添加到缓存
     this.cache.set(key, newNode)
@@ -205,7 +208,7 @@ export class LFUCache<T = any> {
       return false
     }
 
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return false
     }
@@ -261,7 +264,7 @@ export class LFUCache<T = any> {
       return undefined
     }
 
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return undefined
     }
@@ -269,13 +272,145 @@ export class LFUCache<T = any> {
     return node.toCacheItem()
   }
 
+  /**
+   * 查看缓存值，不更新访问顺序、频率与访问计数
+   *
+   * 已过期但尚未清理的项也会返回，由调用方判断过期。
+   * @param key - 缓存键
+   * @returns 缓存值，不存在返回 undefined
+   */
+  peek(key: string): T | undefined {
+    return this.cache.get(key)?.value
+  }
+
+  /**
+   * 查看缓存项详情，不更新访问顺序、频率与访问计数
+   * @param key - 缓存键
+   * @returns 缓存项详情，不存在返回 undefined
+   */
+  peekItem(key: string): CacheItem<T> | undefined {
+    return this.cache.get(key)?.toCacheItem()
+  }
+
+  /**
+   * 刷新缓存项的过期时间
+   * @param key - 缓存键
+   * @param ttl - 新的 TTL（可选，默认使用原 TTL）
+   * @returns 是否刷新成功
+   */
+  refresh(key: string, ttl?: number): boolean {
+    const node = this.cache.get(key)
+    if (!node) {
+      return false
+    }
+
+    if (node.isExpired(this.clock.now())) {
+      this.delete(key)
+      return false
+    }
+
+    if (ttl !== undefined) {
+      node.ttl = ttl
+    }
+
+    if (node.ttl !== undefined) {
+      node.expiresAt = this.clock.now() + node.ttl
+    }
+
+    return true
+  }
+
+  /**
+   * 按淘汰顺序返回所有键（频率从低到高，同频率按加入顺序）
+   * @returns 键数组
+   */
+  evictionOrder(): string[] {
+    const frequencies = Array.from(this.frequencyMap.keys()).sort((a, b) => a - b)
+    return frequencies.flatMap(frequency => Array.from(this.frequencyMap.get(frequency)!))
+  }
+
+  /**
+   * 按淘汰顺序查找下一个键，不移除任何项
+   * @param after - 起始键，省略时返回最先被淘汰的键
+   * @returns 紧随 after 之后被淘汰的键
+   */
+  nextVictim(after?: string): string | undefined {
+    if (after === undefined) {
+      return this.findEvictionCandidate()
+    }
+
+    const node = this.cache.get(after)
+    if (!node) {
+      return undefined
+    }
+
+    let found = false
+    for (const key of this.frequencyMap.get(node.frequency)!) {
+      if (found) {
+        return key
+      }
+      found = key === after
+    }
+
+    let nextFrequency: number | undefined
+    for (const frequency of this.frequencyMap.keys()) {
+      if (frequency > node.frequency && (nextFrequency === undefined || frequency < nextFrequency)) {
+        nextFrequency = frequency
+      }
+    }
+    return nextFrequency !== undefined
+      ? this.frequencyMap.get(nextFrequency)!.values().next().value as string | undefined
+      : undefined
+  }
+
+  /**
+   * 按快照恢复缓存项：保留时间戳，访问次数作为频率，并排在同频率的最后
+   * @param item - 缓存项
+   * @param before - 可选，同频率时恢复后紧排在该键之前被淘汰
+   * @returns 被淘汰的项（如果有）
+   */
+  restore(item: CacheItem<T>, before?: string): CacheItem<T> | undefined {
+    this.delete(item.key)
+    const evicted = this.set(item.key, item.value, item.ttl)
+
+    const node = this.cache.get(item.key)!
+    this.removeFromFrequencyMap(node)
+    node.frequency = Math.max(1, item.accessCount)
+    node.createdAt = item.createdAt
+    node.lastAccessedAt = item.lastAccessedAt
+    node.accessCount = item.accessCount
+    node.ttl = item.ttl
+    node.expiresAt = item.expiresAt
+    this.addToFrequencyMap(node)
+
+    // Set 只能追加，插队时按原顺序重建同频率集合
+    if (before !== undefined && before !== item.key && this.cache.get(before)?.frequency === node.frequency) {
+      const frequencySet = this.frequencyMap.get(node.frequency)!
+      const keys = Array.from(frequencySet)
+      frequencySet.clear()
+      for (const key of keys) {
+        if (key === before) {
+          frequencySet.add(item.key)
+        }
+        frequencySet.add(key)
+      }
+    }
+
+    this.minFrequency = Infinity
+    for (const frequency of this.frequencyMap.keys()) {
+      this.minFrequency = Math.min(this.minFrequency, frequency)
+    }
+
+    return evicted
+  }
+
   /**
    * 清理所有过期项
    * @returns 清理的项数
    */
   cleanup(): number {
     let count = 0
-    const now = Date.now()
+    const now = this.clock.now()
 
     for (const [key, node] of this.cache.entries()) {
       if (node.expiresAt !== undefined && now > node.expiresAt) {
@@ -287,6 +422,28 @@ export class LFUCache<T = any> {
     return count
   }
 
+  /**
+   * 按频率从低到高（同频率按加入顺序）查找第一个可淘汰的键
+   */
+  private findEvictionCandidate(filter?: (key: string) => boolean): string | undefined {
+    // 快速路径：最小频率集合的第一个键
+    const minFreqSet = this.frequencyMap.get(this.minFrequency)
+    if (!filter && minFreqSet && minFreqSet.size > 0) {
+      return minFreqSet.values().next().value as string | undefined
+    }
+
+    const frequencies = Array.from(this.frequencyMap.keys()).sort((a, b) => a - b)
+    for (const frequency of frequencies) {
+      for (const key of this.frequencyMap.get(frequency)!) {
+        if (!filter || filter(key)) {
+          return key
+        }
+      }
+    }
+
+    return undefined
+  }
+
   /**
    * 更新节点频率
    */
@@ -297,7 +454,7 @@ export class LFUCache<T = any> {
     this.removeFromFrequencyMap(node)
 
     // 增加频率
-    node.incrementFrequency()
+    node.incrementFrequency(this.clock.now())
 
     // 添加到新频率集合
     this.addToFrequencyMap(node)
@@ -338,17 +495,11 @@ export class LFUCache<T = any> {
 
   /**
    * 淘汰最低频率的项
+   * @param filter - 可选过滤器，返回 false 的键会被跳过
    * @returns 被淘汰的项
    */
-  private evict(): CacheItem<T> | undefined {
-    // 获取最小频率的键集合
-    const minFreqSet = this.frequencyMap.get(this.minFrequency)
-    if (!minFreqSet || minFreqSet.size === 0) {
-      return undefined
-    }
-
-    // 获取第一个键（最早添加的）
-    const keyToEvict = minFreqSet.values().next().value as string | undefined
+  evict(filter?: (key: string) => boolean): CacheItem<T> | undefined {
+    const keyToEvict = this.findEvictionCandidate(filter)
     if (!keyToEvict) {
       return undefined
     }
@@ -6,7 +6,8 @@
  * @module @ldesign/cache/core/strategies/lru
  */
 
-import type { CacheItem } from '../types'
+import type { CacheClock, CacheItem } from '../types'
+import { systemClock } from '../utils/clock'
 
 /**
  * 双向链表节点
@@ -23,10 +24,10 @@ class ListNode<T = any> {
   expiresAt?: number
   ttl?: number
 
-  constructor(key: string, value: T, ttl?: number) {
+  constructor(key: string, value: T, ttl: number | undefined, now: number) {
     this.key = key
     this.value = value
-    this.createdAt = Date.now()
+    this.createdAt = now
     this.lastAccessedAt = this.createdAt
     this.accessCount = 0
     this.ttl = ttl
@@ -53,15 +54,15 @@ class ListNode<T = any> {
   /**
    * 检查是否过期
    */
-  isExpired(): boolean {
-    return this.expiresAt !== undefined && Date.now() > this.expiresAt
+  isExpired(now: number): boolean {
+    return this.expiresAt !== undefined && now > this.expiresAt
   }
 
   /**
    * 更新访问信息
    */
-  updateAccess(): void {
-    this.lastAccessedAt = Date.now()
+  updateAccess(now: number): void {
+    this.lastAccessedAt = now
     this.accessCount++
   }
 }
@@ -101,11 +102,13 @@ export class LRUCache<T = any> {
   private tail: ListNode<T> | null = null
   private maxSize: number
   private defaultTTL?: number
+  private clock: CacheClock
 
-  constructor(maxSize: number = 100, defaultTTL?: number) {
+  constructor(maxSize: number = 100, defaultTTL?: number, clock: CacheClock = systemClock) {
     this.cache = new Map()
     this.maxSize = maxSize
     this.defaultTTL = defaultTTL
+    this.clock = clock
   }
 
   /**
@@ -120,13 +123,13 @@ export class LRUCache<T = any> {
     }
 
     // 检查是否过期
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return undefined
     }
 
     // 更新访问信息
-    node.updateAccess()
+    node.updateAccess(this.clock.now())
 
     // 移动到链表头部（最近使用）
     this.moveToHead(node)
@@ -147,17 +150,17 @@ export class LRUCache<T = any> {
     // 如果键已存在，更新值并移到头部
     if (existingNode) {
       existingNode.value = value
-      existingNode.lastAccessedAt = Date.now()
+      existingNode.lastAccessedAt = this.clock.now()
       const finalTTL = ttl ?? this.defaultTTL
       existingNode.ttl = finalTTL
-      existingNode.expiresAt = finalTTL !== undefined ? Date.now() + finalTTL : undefined
+      existingNode.expiresAt = finalTTL !== undefined ? this.clock.now() + finalTTL : undefined
       this.moveToHead(existingNode)
       return undefined
     }
 
     // 创建新节点
     const finalTTL = ttl ?? this.defaultTTL
-    const newNode = new ListNode(key, value, finalTTL)
+    const newNode = new ListNode(key, value, finalTTL, this.clock.now())
 
     // 添加到缓存和链表头部
     this.cache.set(key, newNode)
@@ -203,7 +206,7 @@ export class LRUCache<T = any> {
       return false
     }
 
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return false
     }
@@ -259,7 +262,7 @@ export class LRUCache<T = any> {
       return undefined
     }
 
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return undefined
     }
@@ -267,13 +270,111 @@ export class LRUCache<T = any> {
     return node.toCacheItem()
   }
 
+  /**
+   * 查看缓存值，不更新访问顺序、频率与访问计数
+   *
+   * 已过期但尚未清理的项也会返回，由调用方判断过期。
+   * @param key - 缓存键
+   * @returns 缓存值，不存在返回 undefined
+   */
+  peek(key: string): T | undefined {
+    return this.cache.get(key)?.value
+  }
+
+  /**
+   * 查看缓存项详情，不更新访问顺序、频率与访问计数
+   * @param key - 缓存键
+   * @returns 缓存项详情，不存在返回 undefined
+   */
+  peekItem(key: string): CacheItem<T> | undefined {
+    return this.cache.get(key)?.toCacheItem()
+  }
+
+  /**
+   * 刷新缓存项的过期时间
+   * @param key - 缓存键
+   * @param ttl - 新的 TTL（可选，默认使用原 TTL）
+   * @returns 是否刷新成功
+   */
+  refresh(key: string, ttl?: number): boolean {
+    const node = this.cache.get(key)
+    if (!node) {
+      return false
+    }
+
+    if (node.isExpired(this.clock.now())) {
+      this.delete(key)
+      return false
+    }
+
+    if (ttl !== undefined) {
+      node.ttl = ttl
+    }
+
+    if (node.ttl !== undefined) {
+      node.expiresAt = this.clock.now() + node.ttl
+    }
+
+    return true
+  }
+
+  /**
+   * 按淘汰顺序返回所有键（最先被淘汰的在前）
+   * @returns 键数组
+   */
+  evictionOrder(): string[] {
+    const keys: string[] = []
+    for (let node = this.tail; node; node = node.prev) {
+      keys.push(node.key)
+    }
+    return keys
+  }
+
+  /**
+   * 按淘汰顺序查找下一个键，不移除任何项
+   * @param after - 起始键，省略时返回最先被淘汰的键
+   * @returns 紧随 after 之后被淘汰的键
+   */
+  nextVictim(after?: string): string | undefined {
+    if (after === undefined) {
+      return this.tail?.key
+    }
+    return this.cache.get(after)?.prev?.key
+  }
+
+  /**
+   * 按快照恢复缓存项：保留时间戳和访问次数，并放到最近使用的位置
+   * @param item - 缓存项
+   * @param before - 可选，恢复后紧排在该键之前被淘汰
+   * @returns 被淘汰的项（如果有）
+   */
+  restore(item: CacheItem<T>, before?: string): CacheItem<T> | undefined {
+    this.delete(item.key)
+    const evicted = this.set(item.key, item.value, item.ttl)
+
+    const node = this.cache.get(item.key)!
+    node.createdAt = item.createdAt
+    node.lastAccessedAt = item.lastAccessedAt
+    node.accessCount = item.accessCount
+    node.ttl = item.ttl
+    node.expiresAt = item.expiresAt
+
+    const anchor = before !== undefined ? this.cache.get(before) : undefined
+    if (anchor && anchor !== node) {
+      this.removeNode(node)
+      this.insertAfter(node, anchor)
+    }
+
+    return evicted
+  }
+
   /**
    * 清理所有过期项
    * @returns 清理的项数
    */
   cleanup(): number {
     let count = 0
-    const now = Date.now()
+    const now = this.clock.now()
 
     for (const [key, node] of this.cache.entries()) {
       if (node.expiresAt !== undefined && now > node.expiresAt) {
@@ -285,6 +386,28 @@ export class LRUCache<T = any> {
     return count
   }
 
+  /**
+   * 按 LRU 顺序淘汰一项（从最久未使用的一端开始）
+   * @param filter - 可选过滤器，返回 false 的键会被跳过
+   * @returns 被淘汰的项，没有可淘汰项时返回 undefined
+   */
+  evict(filter?: (key: string) => boolean): CacheItem<T> | undefined {
+    let node = this.tail
+    if (filter) {
+      while (node && !filter(node.key)) {
+        node = node.prev
+      }
+    }
+
+    if (!node) {
+      return undefined
+    }
+
+    this.removeNode(node)
+    this.cache.delete(node.key)
+    return node.toCacheItem()
+  }
+
   /**
    * 移动节点到链表头部
    */
@@ -311,6 +434,23 @@ export class LRUCache<T = any> {
     }
   }
 
+  /**
+   * 把节点插到 anchor 靠尾部的一侧，使其紧排在 anchor 之前被淘汰
+   */
+  private insertAfter(node: ListNode<T>, anchor: ListNode<T>): void {
+    node.prev = anchor
+    node.next = anchor.next
+
+    if (anchor.next) {
+      anchor.next.prev = node
+    }
+    else {
+      this.tail = node
+    }
+
+    anchor.next = node
+  }
+
   /**
    * 从链表中移除节点
    */
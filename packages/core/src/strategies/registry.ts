@@ -0,0 +1,70 @@
+/**
+ * 策略注册表
+ * @module @ldesign/cache/core/strategies/registry
+ */
+
+import type { StrategyFactory } from '../types'
+import { ERROR_MESSAGES } from '../constants'
+import { CacheStrategy } from '../types'
+import { FIFOCache } from './fifo'
+import { LFUCache } from './lfu'
+import { LRUCache } from './lru'
+import { TTLCache } from './ttl'
+
+/**
+ * TTL 策略未设置 defaultTTL 时使用的过期时间（5 分钟）
+ */
+const DEFAULT_STRATEGY_TTL = 5 * 60 * 1000
+
+const BUILTIN_STRATEGIES: Record<CacheStrategy, StrategyFactory> = {
+  [CacheStrategy.LRU]: ({ maxSize, defaultTTL, clock }) => new LRUCache(maxSize, defaultTTL, clock),
+  [CacheStrategy.LFU]: ({ maxSize, defaultTTL, clock }) => new LFUCache(maxSize, defaultTTL, clock),
+  [CacheStrategy.FIFO]: ({ maxSize, defaultTTL, clock }) => new FIFOCache(maxSize, defaultTTL, clock),
+  // 过期清理由 CacheManager 的单一定时器驱动，策略内部不再启动定时器
+  [CacheStrategy.TTL]: ({ defaultTTL, clock }) => new TTLCache(defaultTTL ?? DEFAULT_STRATEGY_TTL, 0, clock),
+}
+
+const registry = new Map<string, StrategyFactory>(Object.entries(BUILTIN_STRATEGIES))
+
+/**
+ * 注册自定义淘汰策略，之后可通过 `CacheOptions.strategy` 或 `setStrategy` 按名称使用
+ *
+ * 再次注册同名策略会覆盖之前的工厂；内置策略名称不能被覆盖。
+ *
+ * @param name - 策略名称
+ * @param factory - 策略工厂
+ * @throws 如果名称为空或与内置策略同名
+ *
+ * @example
+ * ```typescript
+ * registerStrategy('arc', ({ maxSize, clock }) => new ARCCache(maxSize, clock))
+ * const cache = createCacheManager({ strategy: 'arc' })
+ * ```
+ */
+export function registerStrategy(name: string, factory: StrategyFactory): void {
+  if (!name || name in BUILTIN_STRATEGIES) {
+    throw new Error(`${ERROR_MESSAGES.INVALID_STRATEGY_NAME}: ${name}`)
+  }
+  registry.set(name, factory)
+}
+
+/**
+ * 移除自定义淘汰策略，已创建的缓存实例不受影响
+ * @param name - 策略名称
+ * @returns 是否移除成功（内置策略始终返回 false）
+ */
+export function unregisterStrategy(name: string): boolean {
+  if (name in BUILTIN_STRATEGIES) {
+    return false
+  }
+  return registry.delete(name)
+}
+
+/**
+ * 按名称查找策略工厂
+ * @param name - 策略名称
+ * @returns 策略工厂，未注册返回 undefined
+ */
+export function getStrategyFactory(name: string): StrategyFactory | undefined {
+  return registry.get(name)
+}
@@ -6,7 +6,8 @@
  * @module @ldesign/cache/core/strategies/ttl
  */
 
-import type { CacheItem } from '../types'
+import type { CacheClock, CacheItem } from '../types'
+import { systemClock } from '../utils/clock'
 
 /**
  * TTL 缓存节点
@@ -21,10 +22,10 @@ class TTLNode<T = any> {
   expiresAt: number
   ttl: number
 
-  constructor(key: string, value: T, ttl: number) {
+  constructor(key: string, value: T, ttl: number, now: number) {
     this.key = key
     this.value = value
-    this.createdAt = Date.now()
+    this.createdAt = now
     this.lastAccessedAt = this.createdAt
     this.accessCount = 0
     this.ttl = ttl
@@ -49,23 +50,23 @@ class TTLNode<T = any> {
   /**
    * 检查是否过期
    */
-  isExpired(): boolean {
-    return Date.now() > this.expiresAt
+  isExpired(now: number): boolean {
+    return now > this.expiresAt
   }
 
   /**
    * 更新访问信息
    */
-  updateAccess(): void {
-    this.lastAccessedAt = Date.now()
+  updateAccess(now: number): void {
+    this.lastAccessedAt = now
     this.accessCount++
   }
 
   /**
    * 刷新过期时间
    */
-  refresh(): void {
-    this.expiresAt = Date.now() + this.ttl
+  refresh(now: number): void {
+    this.expiresAt = now + this.ttl
   }
 }
 
@@ -105,11 +106,13 @@ export class TTLCache<T = any> {
   private defaultTTL: number
   private cleanupInterval: number
   private cleanupTimer?: ReturnType<typeof setInterval>
+  private clock: CacheClock
 
-  constructor(defaultTTL: number = 5 * 60 * 1000, cleanupInterval: number = 60 * 1000) {
+  constructor(defaultTTL: number = 5 * 60 * 1000, cleanupInterval: number = 60 * 1000, clock: CacheClock = systemClock) {
     this.cache = new Map()
     this.defaultTTL = defaultTTL
     this.cleanupInterval = cleanupInterval
+    this.clock = clock
 
     // 启动自动清理
     if (cleanupInterval > 0) {
@@ -129,13 +132,13 @@ export class TTLCache<T = any> {
     }
 
     // 检查是否过期（惰性清理）
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return undefined
     }
 
     // 更新访问信息
-    node.updateAccess()
+    node.updateAccess(this.clock.now())
 
     return node.value
   }
@@ -145,8 +148,9 @@ export class TTLCache<T = any> {
    * @param key - 缓存键
    * @param value - 缓存值
    * @param ttl - 过期时间（毫秒），覆盖默认 TTL
+   * @returns 始终为 undefined，TTL 策略不会因写入而淘汰其他项
    */
-  set(key: string, value: T, ttl?: number): void {
+  set(key: string, value: T, ttl?: number): CacheItem<T> | undefined {
     const finalTTL = ttl ?? this.defaultTTL
     const existingNode = this.cache.get(key)
 
@@ -154,14 +158,16 @@ export class TTLCache<T = any> {
     if (existingNode) {
       existingNode.value = value
       existingNode.ttl = finalTTL
-      existingNode.refresh()
-      existingNode.lastAccessedAt = Date.now()
-      return
+      const now = this.clock.now()
+      existingNode.refresh(now)
+      existingNode.lastAccessedAt = now
+      return undefined
     }
 
     // 创建新节点
-    const newNode = new TTLNode(key, value, finalTTL)
+    const newNode = new TTLNode(key, value, finalTTL, this.clock.now())
     this.cache.set(key, newNode)
+    return undefined
   }
 
   /**
@@ -184,7 +190,7 @@ export class TTLCache<T = any> {
       return false
     }
 
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return false
     }
@@ -238,7 +244,7 @@ export class TTLCache<T = any> {
       return undefined
     }
 
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return undefined
     }
@@ -246,6 +252,26 @@ export class TTLCache<T = any> {
     return node.toCacheItem()
   }
 
+  /**
+   * 查看缓存值，不更新访问顺序、频率与访问计数
+   *
+   * 已过期但尚未清理的项也会返回，由调用方判断过期。
+   * @param key - 缓存键
+   * @returns 缓存值，不存在返回 undefined
+   */
+  peek(key: string): T | undefined {
+    return this.cache.get(key)?.value
+  }
+
+  /**
+   * 查看缓存项详情，不更新访问顺序、频率与访问计数
+   * @param key - 缓存键
+   * @returns 缓存项详情，不存在返回 undefined
+   */
+  peekItem(key: string): CacheItem<T> | undefined {
+    return this.cache.get(key)?.toCacheItem()
+  }
+
   /**
    * 刷新缓存项的过期时间
    * @param key - 缓存键
@@ -258,7 +284,7 @@ export class TTLCache<T = any> {
       return false
     }
 
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return false
     }
@@ -267,10 +293,66 @@ export class TTLCache<T = any> {
       node.ttl = ttl
     }
 
-    node.refresh()
+    node.refresh(this.clock.now())
     return true
   }
 
+  /**
+   * 按淘汰顺序返回所有键（最早过期的在前）
+   * @returns 键数组
+   */
+  evictionOrder(): string[] {
+    return Array.from(this.cache.values())
+      .sort((a, b) => a.expiresAt - b.expiresAt)
+      .map(node => node.key)
+  }
+
+  /**
+   * 按淘汰顺序查找下一个键，不移除任何项（同一过期时间按加入顺序）
+   * @param after - 起始键，省略时返回最先被淘汰的键
+   * @returns 紧随 after 之后被淘汰的键
+   */
+  nextVictim(after?: string): string | undefined {
+    const current = after !== undefined ? this.cache.get(after) : undefined
+    if (after !== undefined && !current) {
+      return undefined
+    }
+
+    let passed = !current
+    let candidate: TTLNode<T> | undefined
+    for (const node of this.cache.values()) {
+      if (node === current) {
+        passed = true
+        continue
+      }
+      if (current && (node.expiresAt < current.expiresAt || (node.expiresAt === current.expiresAt && !passed))) {
+        continue
+      }
+      if (!candidate || node.expiresAt < candidate.expiresAt) {
+        candidate = node
+      }
+    }
+
+    return candidate?.key
+  }
+
+  /**
+   * 按快照恢复缓存项：保留时间戳、访问次数和过期时间
+   * @param item - 缓存项
+   */
+  restore(item: CacheItem<T>): void {
+    this.delete(item.key)
+    this.set(item.key, item.value, item.ttl)
+
+    const node = this.cache.get(item.key)!
+    node.createdAt = item.createdAt
+    node.lastAccessedAt = item.lastAccessedAt
+    node.accessCount = item.accessCount
+    if (item.expiresAt !== undefined) {
+      node.expiresAt = item.expiresAt
+    }
+  }
+
   /**
    * 获取缓存项的剩余 TTL
    * @param key - 缓存键
@@ -282,12 +364,12 @@ export class TTLCache<T = any> {
       return -1
     }
 
-    if (node.isExpired()) {
+    if (node.isExpired(this.clock.now())) {
       this.delete(key)
       return -1
     }
 
-    return Math.max(0, node.expiresAt - Date.now())
+    return Math.max(0, node.expiresAt - this.clock.now())
   }
 
   /**
@@ -296,7 +378,7 @@ export class TTLCache<T = any> {
    */
   cleanup(): number {
     let count = 0
-    const now = Date.now()
+    const now = this.clock.now()
 
     for (const [key, node] of this.cache.entries()) {
       if (now > node.expiresAt) {
@@ -308,6 +390,31 @@ export class TTLCache<T = any> {
     return count
   }
 
+  /**
+   * 淘汰最早到期的项
+   * @param filter - 可选过滤器，返回 false 的键会被跳过
+   * @returns 被淘汰的项
+   */
+  evict(filter?: (key: string) => boolean): CacheItem<T> | undefined {
+    let candidate: TTLNode<T> | undefined
+
+    for (const node of this.cache.values()) {
+      if (filter && !filter(node.key)) {
+        continue
+      }
+      if (!candidate || node.expiresAt < candidate.expiresAt) {
+        candidate = node
+      }
+    }
+
+    if (!candidate) {
+      return undefined
+    }
+
+    this.cache.delete(candidate.key)
+    return candidate.toCacheItem()
+  }
+
   /**
    * 启动自动清理定时器
    */
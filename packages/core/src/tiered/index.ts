@@ -0,0 +1 @@
+export { createTieredCacheManager, TieredCacheManager } from './manager'
@@ -0,0 +1,363 @@
+/**
+ * Two-tier cache: an in-memory CacheManager (L1) in front of a persistent
+ * IStorageAdapter (L2). L1 misses fall through to L2 and promote the entry,
+ * L1 evictions are demoted to L2 instead of being dropped.
+ */
+
+import type { IStorageAdapter } from '../storage/base'
+import type {
+  CacheError,
+  CacheEvent,
+  CacheItem,
+  CacheStats,
+  CacheTierStats,
+  InvalidateOptions,
+  InvalidatePatternOptions,
+  SetOptions,
+  TieredCacheOptions,
+} from '../types'
+import { CacheManager } from '../cache-manager'
+import { CacheErrorCode, CacheEventType } from '../types'
+import { createPatternMatcher, isDescendantPath } from '../utils/pattern'
+
+interface TierCounters {
+  hits: number
+  misses: number
+}
+
+export class TieredCacheManager<T = any> {
+  readonly l1: CacheManager<T>
+
+  private readonly l2: IStorageAdapter
+  private readonly writeThrough: boolean
+  private readonly onError?: (error: CacheError) => void
+  private readonly l2Counters: TierCounters = { hits: 0, misses: 0 }
+  private promotions = 0
+  private demotions = 0
+  private readonly demoting = new Map<string, CacheItem<T>>()
+  private readonly pendingReads = new Map<string, object>()
+  private readonly evictListener = (event: CacheEvent<T>) => this.demote(event)
+
+  constructor(options: TieredCacheOptions<T>) {
+    this.l2 = options.l2
+    this.writeThrough = options.writeThrough ?? false
+    this.onError = options.onError
+
+    this.l1 = new CacheManager<T>({
+      onError: options.onError,
+      ...options.l1,
+      enablePersistence: false,
+      storage: undefined,
+    })
+
+    if (options.l1?.clock) {
+      this.l2.useClock?.(options.l1.clock)
+    }
+
+    this.l1.on(CacheEventType.EVICT, this.evictListener)
+  }
+
+  ready(): Promise<void> {
+    return this.l1.ready()
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const value = this.l1.get(key)
+    if (value !== undefined) {
+      return value
+    }
+
+    const read = {}
+    this.pendingReads.set(key, read)
+    const item = await this.readL2(key)
+    // A write, delete or newer read of the key while L2 was being read
+    // supersedes this one, so its result must not be promoted.
+    const current = this.pendingReads.get(key) === read
+    if (current) {
+      this.pendingReads.delete(key)
+    }
+
+    if (!item) {
+      this.l2Counters.misses += 1
+      return undefined
+    }
+
+    this.l2Counters.hits += 1
+    if (current) {
+      this.promote(item)
+    }
+    return item.value
+  }
+
+  async set(key: string, value: T, options?: number | SetOptions): Promise<void> {
+    this.pendingReads.delete(key)
+    this.l1.set(key, value, options)
+
+    if (this.writeThrough) {
+      const item = this.l1.getItem(key)
+      if (item) {
+        await this.writeL2(item)
+      }
+      return
+    }
+
+    await this.removeL2(key)
+  }
+
+  async has(key: string): Promise<boolean> {
+    if (this.l1.has(key)) {
+      return true
+    }
+    return (await this.readL2(key)) !== null
+  }
+
+  async delete(key: string): Promise<boolean> {
+    this.pendingReads.delete(key)
+    const inL1 = this.l1.delete(key)
+    const inL2 = (await this.readL2(key)) !== null
+    await this.removeL2(key)
+    return inL1 || inL2
+  }
+
+  async clear(): Promise<void> {
+    this.l1.clear()
+    this.demoting.clear()
+    this.pendingReads.clear()
+    try {
+      await this.l2.clear()
+    }
+    catch (error) {
+      this.handleError(error)
+    }
+  }
+
+  async invalidateByTag(tag: string, options: InvalidateOptions = {}): Promise<number> {
+    const removed = this.l1.invalidateByTag(tag, options)
+    const matches = this.createNameMatcher(tag, options)
+    return removed + await this.invalidateL2(item => item.tags?.some(matches) ?? false)
+  }
+
+  async invalidateByNamespace(namespace: string, options: InvalidateOptions = {}): Promise<number> {
+    const removed = this.l1.invalidateByNamespace(namespace, options)
+    const matches = this.createNameMatcher(namespace, options)
+    return removed + await this.invalidateL2(item => item.namespace !== undefined && matches(item.namespace))
+  }
+
+  async invalidateByPattern(pattern: string | RegExp, options: InvalidatePatternOptions = {}): Promise<number> {
+    const removed = this.l1.invalidateByPattern(pattern, options)
+    const matches = createPatternMatcher(pattern)
+
+    switch (options.scope ?? 'key') {
+      case 'tag':
+        return removed + await this.invalidateL2(item => item.tags?.some(matches) ?? false)
+      case 'namespace':
+        return removed + await this.invalidateL2(item => item.namespace !== undefined && matches(item.namespace))
+      default:
+        return removed + await this.invalidateL2(item => matches(item.key))
+    }
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const l1Stats = this.l1.getStats()
+    const l2Size = (await this.readL2Keys()).length
+
+    const l1: CacheTierStats = {
+      size: l1Stats.size,
+      hits: l1Stats.hits,
+      misses: l1Stats.misses,
+      hitRate: l1Stats.hitRate,
+    }
+    const l2: CacheTierStats = {
+      size: l2Size,
+      hits: this.l2Counters.hits,
+      misses: this.l2Counters.misses,
+      hitRate: this.computeHitRate(this.l2Counters),
+    }
+
+    const hits = l1.hits + l2.hits
+    const totalRequests = l1Stats.totalRequests
+
+    return {
+      ...l1Stats,
+      size: l1.size + l2.size,
+      hits,
+      misses: l2.misses,
+      hitRate: totalRequests === 0 ? 0 : hits / totalRequests,
+      tiers: {
+        l1,
+        l2,
+        promotions: this.promotions,
+        demotions: this.demotions,
+      },
+    }
+  }
+
+  destroy(): void {
+    this.l1.off(CacheEventType.EVICT, this.evictListener)
+    this.l1.destroy()
+  }
+
+  private promote(item: CacheItem<T>): void {
+    const now = this.l1.clock.now()
+    // Promotion is a read, so sliding entries start a fresh window.
+    const sliding = item.sliding === true && item.ttl !== undefined
+    this.l1.set(item.key, item.value, {
+      ttl: item.expiresAt && !sliding ? Math.max(1, item.expiresAt - now) : item.ttl,
+      expiresAt: item.deadline,
+      ttlJitter: 0,
+      staleTtl: item.freshUntil !== undefined && item.freshUntil !== item.expiresAt ? Math.max(0, item.freshUntil - now) : undefined,
+      tags: item.tags,
+      namespace: item.namespace,
+      priority: item.priority,
+      pinned: item.pinned,
+      sliding: item.sliding ?? false,
+      maxLifetime: item.maxExpiresAt !== undefined ? Math.max(1, item.maxExpiresAt - now) : undefined,
+      dependsOn: item.dependencies,
+      staleIfError: item.staleIfError,
+    })
+    this.promotions += 1
+
+    if (!this.writeThrough) {
+      void this.removeL2(item.key)
+    }
+  }
+
+  private demote(event: CacheEvent<T>): void {
+    if (!event.key || event.value === undefined) {
+      return
+    }
+
+    const metadata = event.metadata ?? {}
+    if (metadata.expiresAt !== undefined && metadata.expiresAt <= this.l1.clock.now()) {
+      return
+    }
+
+    // Derived entries are invalid once a parent goes, so they leave L2 too.
+    if (metadata.reason === 'dependency') {
+      void this.removeL2(event.key)
+      return
+    }
+
+    const now = this.l1.clock.now()
+    const item: CacheItem<T> = {
+      key: event.key,
+      value: event.value,
+      createdAt: now,
+      lastAccessedAt: now,
+      accessCount: 0,
+      ttl: metadata.ttl,
+      expiresAt: metadata.expiresAt,
+      freshUntil: metadata.freshUntil,
+      tags: metadata.tags,
+      namespace: metadata.namespace,
+      priority: metadata.priority,
+      pinned: metadata.pinned,
+      sliding: metadata.sliding,
+      maxExpiresAt: metadata.maxExpiresAt,
+      deadline: metadata.deadline,
+      dependencies: metadata.dependencies,
+      staleIfError: metadata.staleIfError,
+    }
+
+    this.demotions += 1
+    // Readers may ask for the entry before the async L2 write lands.
+    this.demoting.set(item.key, item)
+    void this.writeL2(item).finally(() => {
+      if (this.demoting.get(item.key) === item) {
+        this.demoting.delete(item.key)
+      }
+    })
+  }
+
+  private async invalidateL2(predicate: (item: CacheItem<T>) => boolean): Promise<number> {
+    // Reads in flight may return entries that are about to be invalidated.
+    this.pendingReads.clear()
+    let removed = 0
+
+    for (const key of await this.readL2Keys()) {
+      const item = await this.readL2(key)
+      if (item && predicate(item)) {
+        await this.removeL2(key)
+        removed += 1
+      }
+    }
+
+    return removed
+  }
+
+  private async readL2(key: string): Promise<CacheItem<T> | null> {
+    try {
+      const item = this.demoting.get(key) ?? await this.l2.getItem<T>(key)
+      if (item && item.expiresAt && item.expiresAt <= this.l1.clock.now()) {
+        await this.removeL2(key)
+        return null
+      }
+      return item
+    }
+    catch (error) {
+      this.handleError(error, key)
+      return null
+    }
+  }
+
+  private async readL2Keys(): Promise<string[]> {
+    try {
+      return await this.l2.keys()
+    }
+    catch (error) {
+      this.handleError(error)
+      return []
+    }
+  }
+
+  private async writeL2(item: CacheItem<T>): Promise<void> {
+    try {
+      await this.l2.setItem(item.key, item)
+    }
+    catch (error) {
+      this.handleError(error, item.key)
+    }
+  }
+
+  private async removeL2(key: string): Promise<void> {
+    this.demoting.delete(key)
+    try {
+      await this.l2.removeItem(key)
+    }
+    catch (error) {
+      this.handleError(error, key)
+    }
+  }
+
+  private createNameMatcher(name: string, options: InvalidateOptions): (value: string) => boolean {
+    return options.descendants
+      ? value => isDescendantPath(value, name)
+      : value => value === name
+  }
+
+  private computeHitRate(counters: TierCounters): number {
+    const total = counters.hits + counters.misses
+    return total === 0 ? 0 : counters.hits / total
+  }
+
+  private handleError(error: unknown, key?: string): void {
+    const cacheError = (error instanceof Error ? error : new Error('Unknown cache error.')) as CacheError
+    if (!cacheError.code) {
+      cacheError.code = CacheErrorCode.UNKNOWN_ERROR
+    }
+    if (key !== undefined && cacheError.key === undefined) {
+      cacheError.key = key
+    }
+
+    if (this.onError) {
+      this.onError(cacheError)
+      return
+    }
+
+    console.error(cacheError)
+  }
+}
+
+export function createTieredCacheManager<T = any>(options: TieredCacheOptions<T>): TieredCacheManager<T> {
+  return new TieredCacheManager<T>(options)
+}
@@ -2,6 +2,9 @@
  * Cache type definitions.
  */
 
+import type { IStorageAdapter } from '../storage/base'
+import type { StrategyFactory } from './strategy'
+
 export type CacheableValue =
   | string
   | number
@@ -18,10 +21,38 @@ export interface CacheItemMetadata {
   lastAccessedAt: number
   accessCount: number
   expiresAt?: number
+  /**
+   * Soft expiry: past this point the entry is stale but still served until
+   * `expiresAt`. Equals `expiresAt` unless written with `SetOptions.staleTtl`.
+   */
+  freshUntil?: number
   ttl?: number
   tags?: string[]
   namespace?: string
   priority?: number
+  pinned?: boolean
+  sliding?: boolean
+  /**
+   * Hard expiry cap for sliding entries; reads never extend past it.
+   */
+  maxExpiresAt?: number
+  /**
+   * Absolute expiry the entry was written with (`SetOptions.expiresAt`), so
+   * a loader refresh keeps it instead of restarting a relative ttl.
+   */
+  deadline?: number
+  /**
+   * Schema version the value was written with (see `CacheOptions.schemaVersion`).
+   */
+  version?: number
+  /**
+   * Keys this entry was derived from (see `SetOptions.dependsOn`).
+   */
+  dependencies?: string[]
+  /**
+   * How long (ms) the value stays usable after expiry (see `SetOptions.staleIfError`).
+   */
+  staleIfError?: number
   size?: number
 }
 
@@ -40,35 +71,234 @@ export enum CacheStrategy {
 }
 
 /**
- * Persistence backend supported by CacheManager itself.
+ * Built-in web storage backend selected through `CacheOptions.storageType`.
  */
 export type StorageType = 'localStorage' | 'sessionStorage'
 
-export type EvictionReason = 'capacity' | 'expired' | 'manual' | 'lru' | 'lfu' | 'fifo' | 'strategy'
+export type EvictionReason = 'capacity' | 'expired' | 'manual' | 'lru' | 'lfu' | 'fifo' | 'strategy' | 'priority' | 'dependency'
+
+/**
+ * Time source for expiry and timestamps (see `ManualClock`).
+ */
+export interface CacheClock {
+  now: () => number
+}
 
 export interface CacheOptions<T = unknown> {
-  strategy?: CacheStrategy
+  /**
+   * A built-in strategy, a name passed to `registerStrategy`, or a factory.
+   */
+  strategy?: CacheStrategy | string | StrategyFactory<T>
+  /**
+   * Time source for expiry, timestamps and stats. Passed to the strategy,
+   * the query client and the storage adapter (defaults to `Date.now()`).
+   */
+  clock?: CacheClock
   maxSize?: number
+  /**
+   * Byte budget for all entries (estimated). Entries are evicted in strategy
+   * order until a new write fits.
+   */
+  maxMemory?: number
+  /**
+   * Largest estimated entry size accepted by `set`, in bytes.
+   */
+  maxEntrySize?: number
   defaultTTL?: number
+  /**
+   * Default ttl of negative entries written by `setMissing` (falls back to
+   * `defaultTTL`).
+   */
+  negativeTTL?: number
+  /**
+   * Default random extension added to each ttl so entries written together
+   * do not expire together. Values below 1 are a fraction of the ttl,
+   * values of 1 or more are milliseconds.
+   */
+  ttlJitter?: number
+  /**
+   * Default `SetOptions.staleIfError` window.
+   */
+  staleIfError?: number
+  /**
+   * Make entries sliding unless `SetOptions.sliding` says otherwise.
+   */
+  defaultSliding?: boolean
+  /**
+   * Default fraction of the ttl after which reads of an entry with a
+   * registered loader trigger a background reload (default 0.8).
+   */
+  refreshAhead?: number
   enableStats?: boolean
   enablePersistence?: boolean
   storageType?: StorageType
   storagePrefix?: string
+  /**
+   * Custom persistence backend (sync or async). Takes precedence over
+   * `storageType` and turns persistence on unless `enablePersistence` is false.
+   */
+  storage?: IStorageAdapter
   cleanupInterval?: number
   namespace?: string
+  /**
+   * Current shape version of cached values, either one number for every entry
+   * or per namespace (`'*'` covers the rest). Hydrated entries written with an
+   * older version go through `migrations`; entries that cannot be upgraded are
+   * dropped. Entries persisted without a version count as version 0.
+   */
+  schemaVersion?: number | Record<string, number>
+  /**
+   * Upgrade steps keyed by the version they produce (`{ 2: v1 => v2 }`). When
+   * `schemaVersion` is per namespace, this is keyed by namespace first.
+   */
+  migrations?: CacheMigrations<T> | Record<string, CacheMigrations<T>>
   plugins?: CachePlugin<T>[]
   onEvict?: (key: string, value: T, reason: EvictionReason) => void
   onExpire?: (key: string, value: T) => void
   onError?: (error: CacheError) => void
 }
 
+export interface CacheMigrationContext {
+  key: string
+  namespace?: string
+  from: number
+  to: number
+}
+
+/**
+ * Upgrades a value by one schema version. Returning `undefined` drops the entry.
+ */
+export type CacheMigration<T = unknown> = (value: any, context: CacheMigrationContext) => T | undefined
+
+export type CacheMigrations<T = unknown> = Record<number, CacheMigration<T>>
+
+export type CacheMigrationDropReason = 'missing-migration' | 'rejected' | 'failed' | 'newer-version'
+
+/**
+ * Outcome of a hydration pass, delivered through the `MIGRATE` event.
+ */
+export interface CacheMigrationReport {
+  /**
+   * Entries that were already at their current version.
+   */
+  current: number
+  upgraded: Array<{ key: string, from: number, to: number }>
+  dropped: Array<{ key: string, from: number, reason: CacheMigrationDropReason }>
+}
+
+/**
+ * Computes an absolute expiry from the write time (see `endOfDay`,
+ * `nextInterval`).
+ */
+export type ExpiryPolicy = (now: number) => number
+
+export interface ExpiryPolicyOptions {
+  /**
+   * Timezone as minutes east of UTC (480 for UTC+8). Defaults to the local
+   * offset at write time.
+   */
+  utcOffset?: number
+}
+
 export interface SetOptions {
   ttl?: number
+  /**
+   * Absolute expiry; takes precedence over `ttl` and `ttlJitter`.
+   */
+  expiresAt?: number | Date | ExpiryPolicy
+  /**
+   * Soft ttl: the entry turns stale after this many ms and stays readable
+   * until `ttl`. Capped at `ttl`; defaults to it.
+   */
+  staleTtl?: number
   tags?: string[]
   namespace?: string
+  /**
+   * Eviction class (default 0). Lower classes are always evicted first.
+   */
   priority?: number
+  /**
+   * Never evict this entry for capacity; it still expires and can be deleted.
+   */
+  pinned?: boolean
+  /**
+   * Random extension of `ttl`, overriding `CacheOptions.ttlJitter`. Below 1
+   * it is a fraction of the ttl, otherwise milliseconds; 0 disables it.
+   */
+  ttlJitter?: number
+  /**
+   * Push `expiresAt` forward by `ttl` on every read hit.
+   */
+  sliding?: boolean
+  /**
+   * Hard cap (ms since the write) that sliding reads can never extend past.
+   */
+  maxLifetime?: number
+  /**
+   * Keys this entry is derived from. Deleting, expiring or evicting any of
+   * them evicts this entry too (reason `'dependency'`), transitively.
+   */
+  dependsOn?: string[]
+  /**
+   * Keep the value for this long (ms) after it expires, so a failed reload
+   * can fall back to it (see `CacheManager.getStaleItem`).
+   */
+  staleIfError?: number
+}
+
+declare const cacheKeyValue: unique symbol
+
+export type CacheKeyParam = string | number
+
+/**
+ * Parameter names of a key template (`'user:{id}'` -> `'id'`).
+ */
+export type CacheKeyTemplateParams<P extends string> = P extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | CacheKeyTemplateParams<Rest>
+  : never
+
+export type CacheKeyParams<P extends string> = string extends P
+  ? Record<string, CacheKeyParam>
+  : { [K in CacheKeyTemplateParams<P>]: CacheKeyParam }
+
+/**
+ * A concrete key produced by a key definition. The value type only exists at
+ * compile time; `defaults` are applied by `set` under explicit options.
+ */
+export interface CacheKey<V = unknown> {
+  readonly key: string
+  readonly template: string
+  readonly params: Readonly<Record<string, CacheKeyParam>>
+  readonly defaults: Readonly<SetOptions>
+  readonly [cacheKeyValue]?: V
+  toString(): string
+}
+
+export type CacheKeyValue<K> = K extends CacheKey<infer V> ? V : never
+
+export interface CacheKeyDefinition<V = unknown, P extends string = string> {
+  (...params: [CacheKeyTemplateParams<P>] extends [never] ? [params?: CacheKeyParams<P>] : [params: CacheKeyParams<P>]): CacheKey<V>
+  readonly template: P
+  /**
+   * Parameter names in template order.
+   */
+  readonly params: readonly string[]
+  readonly defaults: Readonly<SetOptions>
+  /**
+   * Glob for `invalidateByPattern`; omitted parameters become `*`.
+   */
+  pattern(params?: Partial<CacheKeyParams<P>>): string
+  /**
+   * Parses a concrete key back into its parameters.
+   */
+  match(key: string): Record<CacheKeyTemplateParams<P>, string> | undefined
 }
 
+/**
+ * Definitions keyed by template, built from a `{ template: ValueType }` map.
+ */
+export type CacheSchema<S> = { readonly [P in keyof S & string]: CacheKeyDefinition<S[P], P> }
+
 export interface CacheStats {
   size: number
   maxSize: number
@@ -78,8 +308,43 @@ export interface CacheStats {
   hitRate: number
   evictions: number
   expirations: number
+  /**
+   * Reads answered by a negative entry; counted in `totalRequests` but not
+   * in `hits` or `misses`.
+   */
+  negativeHits: number
   memoryUsage: number
+  maxMemory?: number
   lastUpdated?: number
+  tiers?: CacheTieredStats
+}
+
+export interface CacheTierStats {
+  size: number
+  hits: number
+  misses: number
+  hitRate: number
+}
+
+export interface CacheTieredStats {
+  l1: CacheTierStats
+  l2: CacheTierStats
+  promotions: number
+  demotions: number
+}
+
+export interface TieredCacheOptions<T = unknown> {
+  /**
+   * Options for the in-memory L1 manager. Persistence settings are ignored:
+   * the L2 adapter is the persistent tier.
+   */
+  l1?: CacheOptions<T>
+  l2: IStorageAdapter
+  /**
+   * Also write every `set` to L2 instead of only demoting L1 evictions.
+   */
+  writeThrough?: boolean
+  onError?: (error: CacheError) => void
 }
 
 export interface CacheError extends Error {
@@ -92,6 +357,12 @@ export enum CacheErrorCode {
   STORAGE_UNAVAILABLE = 'STORAGE_UNAVAILABLE',
   INVALID_KEY = 'INVALID_KEY',
   INVALID_TTL = 'INVALID_TTL',
+  INVALID_OPTION = 'INVALID_OPTION',
+  ENTRY_TOO_LARGE = 'ENTRY_TOO_LARGE',
+  CAPACITY_EXCEEDED = 'CAPACITY_EXCEEDED',
+  TRANSACTION_FAILED = 'TRANSACTION_FAILED',
+  INVALID_SNAPSHOT = 'INVALID_SNAPSHOT',
+  REFRESH_FAILED = 'REFRESH_FAILED',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
 
@@ -135,9 +406,12 @@ export interface CachePlugin<T = unknown> {
 export interface BatchOptions {
   continueOnError?: boolean
   ttl?: number
+  expiresAt?: number | Date | ExpiryPolicy
+  ttlJitter?: number
   tags?: string[]
   namespace?: string
   priority?: number
+  pinned?: boolean
   onProgress?: (completed: number, total: number, key: string) => void
 }
 
@@ -162,17 +436,138 @@ export interface BatchSetEntry<T = unknown> {
   tags?: string[]
   namespace?: string
   priority?: number
+  pinned?: boolean
+}
+
+/**
+ * Self-describing dump produced by `CacheManager.exportSnapshot`.
+ */
+export interface CacheSnapshot<T = unknown> {
+  format: string
+  version: number
+  exportedAt: number
+  /**
+   * Strategy name, or `custom` when the cache was built from a factory.
+   */
+  strategy: CacheStrategy | string
+  /**
+   * Entries in eviction order: the first one would be evicted first.
+   */
+  entries: Array<CacheItem<T>>
+}
+
+export type SnapshotImportMode = 'merge' | 'replace'
+
+export interface ImportSnapshotOptions {
+  /**
+   * `merge` (default) keeps entries missing from the snapshot, `replace`
+   * clears the cache first. Snapshot entries win on conflicts either way.
+   */
+  mode?: SnapshotImportMode
+  /**
+   * Shift every timestamp by the time elapsed since export, so entries keep
+   * the remaining TTL they had when the snapshot was taken.
+   */
+  rebaseTimestamps?: boolean
+}
+
+export interface ImportSnapshotResult {
+  imported: number
+  /**
+   * Expired or rejected entries.
+   */
+  skipped: number
+}
+
+/**
+ * Write set handed to `CacheManager.transaction`. Changes are staged and only
+ * applied when the callback returns (or its promise resolves).
+ */
+export interface CacheTransaction<T = unknown> {
+  set(key: string, value: T, ttlOrOptions?: number | SetOptions): void
+  /**
+   * Stages a delete and reports whether the key currently exists, staged
+   * writes included.
+   */
+  delete(key: string): boolean
+  /**
+   * Reads staged writes first, then the cache.
+   */
+  get(key: string): T | undefined
+  has(key: string): boolean
 }
 
 export type InvalidatePredicate<T = unknown> = (item: ReadonlyCacheItem<T>) => boolean
 
-export interface CacheQueryOptions<T = unknown> {
+export interface InvalidateOptions {
+  /**
+   * Also match hierarchical children (`org:42` covers `org:42:users`).
+   */
+  descendants?: boolean
+}
+
+export interface InvalidateTagOptions extends InvalidateOptions {
+  /**
+   * Only invalidate tagged entries inside this namespace or its children.
+   */
+  namespace?: string
+}
+
+/**
+ * What `invalidateByPattern` matches against.
+ */
+export type InvalidateScope = 'key' | 'tag' | 'namespace'
+
+export interface InvalidatePatternOptions {
+  scope?: InvalidateScope
+}
+
+export type CacheLoader<T = unknown> = (key: string) => T | Promise<T>
+
+export interface RegisterLoaderOptions {
+  /**
+   * Fraction of the ttl (0-1) after which reads start a background reload.
+   */
+  refreshAhead?: number
+}
+
+export interface GetOrSetOptions extends SetOptions {
+  /**
+   * Remember a `null`/`undefined` loader result as a negative entry for this
+   * long, so later calls skip the loader.
+   */
+  negativeTTL?: number
+}
+
+/**
+ * `miss` means nothing is known about the key, `missing` that it is known to
+ * be absent.
+ */
+export type CacheLookup<T = unknown> = { status: 'hit', value: T, stale: boolean } | { status: 'missing' } | { status: 'miss' }
+
+export type CacheChangeType = 'set' | 'delete' | 'expire' | 'evict'
+
+export interface CacheChange<T = unknown> {
+  key: string
+  type: CacheChangeType
+  /**
+   * The new value for `set`, the removed value otherwise (when known).
+   */
+  value?: T
+}
+
+export type CacheWatchListener<T = unknown> = (change: CacheChange<T>) => void
+
+export interface WatchOptions {
+  /**
+   * Call the listener synchronously with every currently matching entry.
+   */
+  immediate?: boolean
+}
+
+export interface CacheQueryOptions<T = unknown> extends SetOptions {
   key: string
   fetcher: () => Promise<T>
-  ttl?: number
-  tags?: string[]
-  namespace?: string
-  priority?: number
   staleTime?: number
   swr?: boolean
   dedupe?: boolean
@@ -180,6 +575,10 @@ export interface CacheQueryOptions<T = unknown> {
   force?: boolean
   retry?: number
   retryDelay?: number
+  /**
+   * Remember a `null`/`undefined` result as a negative entry for this long.
+   */
+  negativeTTL?: number
 }
 
 export interface CacheQueryResult<T = unknown> {
@@ -187,6 +586,14 @@ export interface CacheQueryResult<T = unknown> {
   fromCache: boolean
   stale: boolean
   updatedAt: number
+  /**
+   * The key is known to be absent (a negative entry).
+   */
+  missing?: boolean
+  /**
+   * The fetch failed and `data` is a stale fallback (see `SetOptions.staleIfError`).
+   */
+  error?: Error
 }
 
 export interface CacheQueryClientLike {
@@ -11,6 +11,7 @@ export enum CacheEventType {
   EVICT = 'evict',
   HIT = 'hit',
   MISS = 'miss',
+  MIGRATE = 'migrate',
 }
 
 export interface CacheEvent<T = any> {
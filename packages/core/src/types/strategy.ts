@@ -2,19 +2,70 @@
  * Cache strategy abstraction.
  */
 
-import type { CacheItem } from './cache'
+import type { CacheClock, CacheItem } from './cache'
 
 export interface ICacheStrategy<T = any> {
   readonly size: number
 
   get(key: string): T | undefined
-  set(key: string, value: T, ttl?: number): void
+  /**
+   * Returns the entry the strategy evicted to make room, if any, so the
+   * manager can report it.
+   */
+  set(key: string, value: T, ttl?: number): CacheItem<T> | undefined
   delete(key: string): boolean
   has(key: string): boolean
   clear(): void
   cleanup(): number
   getItem(key: string): CacheItem<T> | undefined
+  /**
+   * Reads a value without touching recency, frequency or access counts.
+   * Entries past their expiry are returned as is.
+   */
+  peek(key: string): T | undefined
+  peekItem(key: string): CacheItem<T> | undefined
   keys(): string[]
   values(): T[]
   entries(): Array<[string, T]>
+  /**
+   * Removes and returns the next victim in the strategy's eviction order,
+   * skipping keys rejected by `filter`.
+   */
+  evict?(filter?: (key: string) => boolean): CacheItem<T> | undefined
+  /**
+   * Restarts the expiry clock of a live entry, optionally with a new TTL.
+   */
+  refresh?(key: string, ttl?: number): boolean
+  /**
+   * Keys in eviction order, next victim first.
+   */
+  evictionOrder?(): string[]
+  /**
+   * Key evicted right after `after` (or the next victim when omitted),
+   * without removing anything.
+   */
+  nextVictim?(after?: string): string | undefined
+  /**
+   * Inserts an entry as the most recently admitted one, or right ahead of
+   * `before` in eviction order when given, keeping its timestamps, access
+   * count and expiry.
+   */
+  restore?(item: CacheItem<T>, before?: string): void
+  /**
+   * Stops timers and drops every entry once the strategy is replaced.
+   */
+  destroy?(): void
 }
+
+/**
+ * Settings a strategy is built from; `maxSize` is enforced by the manager
+ * through `evict` as well, so strategies without `evict` must evict in `set`.
+ */
+export interface StrategyContext {
+  maxSize: number
+  defaultTTL?: number
+  cleanupInterval: number
+  clock: CacheClock
+}
+
+export type StrategyFactory<T = any> = (context: StrategyContext) => ICacheStrategy<T>
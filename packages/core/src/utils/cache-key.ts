@@ -0,0 +1,182 @@
+/**
+ * 类型化缓存键
+ * @module @ldesign/cache/core/utils/cache-key
+ */
+
+import type {
+  CacheKey,
+  CacheKeyDefinition,
+  CacheKeyParam,
+  CacheSchema,
+  SetOptions,
+} from '../types'
+import { ERROR_MESSAGES } from '../constants'
+import { PATTERN_SEPARATOR } from './pattern'
+
+/**
+ * 模板占位符，如 `{id}`
+ */
+const TEMPLATE_PARAM = /\{([^{}]+)\}/g
+
+/**
+ * 参数值中不允许出现的字符（分隔符与通配符）
+ */
+const RESERVED_PARAM_CHARS = /[:*?]/
+
+/**
+ * 解析后的模板：字面量片段与参数名交替出现，`literals.length === params.length + 1`
+ */
+interface ParsedTemplate {
+  literals: string[]
+  params: string[]
+}
+
+/**
+ * 解析键模板
+ * @param template - 键模板，如 `user:{id}`
+ * @returns 字面量片段与参数名
+ */
+function parseTemplate(template: string): ParsedTemplate {
+  const literals: string[] = []
+  const params: string[] = []
+  let cursor = 0
+
+  for (const match of template.matchAll(TEMPLATE_PARAM)) {
+    literals.push(template.slice(cursor, match.index))
+    params.push(match[1])
+    cursor = match.index! + match[0].length
+  }
+  literals.push(template.slice(cursor))
+
+  return { literals, params }
+}
+
+/**
+ * 将参数值格式化为键片段
+ * @param template - 键模板
+ * @param name - 参数名
+ * @param value - 参数值
+ * @throws 如果参数缺失或包含保留字符
+ */
+function formatParam(template: string, name: string, value: CacheKeyParam | undefined): string {
+  if (value === undefined || value === null) {
+    throw new Error(`${ERROR_MESSAGES.MISSING_KEY_PARAM}: ${template} {${name}}`)
+  }
+
+  const text = String(value)
+  if (text.length === 0 || RESERVED_PARAM_CHARS.test(text)) {
+    throw new Error(`${ERROR_MESSAGES.INVALID_KEY_PARAM}: ${template} {${name}} = ${text}`)
+  }
+  return text
+}
+
+/**
+ * 转义正则特殊字符
+ * @param text - 原始文本
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * 按模板构建键定义
+ * @param template - 键模板
+ * @param defaults - 默认写入选项
+ * @returns 键定义
+ */
+function createCacheKeyDefinition<V, P extends string>(template: P, defaults: SetOptions): CacheKeyDefinition<V, P> {
+  const { literals, params } = parseTemplate(template)
+  const matcher = new RegExp(`^${literals.map(escapeRegExp).join(`([^${PATTERN_SEPARATOR}]+)`)}$`)
+
+  const build = (values: Record<string, CacheKeyParam> = {}, wildcard = false): string => {
+    let key = literals[0]
+    for (let i = 0; i < params.length; i++) {
+      const value = values[params[i]]
+      key += wildcard && value === undefined ? '*' : formatParam(template, params[i], value)
+      key += literals[i + 1]
+    }
+    return key
+  }
+
+  const definition = (values?: Record<string, CacheKeyParam>): CacheKey<V> => {
+    const key = build(values)
+    return {
+      key,
+      template,
+      params: { ...values },
+      defaults,
+      toString: () => key,
+    }
+  }
+
+  return Object.assign(definition, {
+    template,
+    params,
+    defaults,
+    pattern: (values?: Record<string, CacheKeyParam>) => build(values, true),
+    match: (key: string) => {
+      const found = matcher.exec(key)
+      if (!found) {
+        return undefined
+      }
+      return Object.fromEntries(params.map((name, i) => [name, found[i + 1]]))
+    },
+  }) as unknown as CacheKeyDefinition<V, P>
+}
+
+/**
+ * 定义类型化缓存键
+ *
+ * 采用柯里化形式：第一次调用声明值类型，第二次调用传入模板，
+ * 这样显式指定值类型时仍能从模板推断参数名。
+ *
+ * 模板中的 `{name}` 是参数占位符，参数值不能包含 `:`、`*`、`?`。
+ * 生成的键可以直接传给 `CacheManager` 的 `get` / `set` 等方法，
+ * `get` 会返回定义时声明的值类型，`set` 会以 `defaults` 作为默认写入选项。
+ *
+ * @returns 接收模板（如 `user:{id}`）和默认写入选项（ttl / tags / namespace 等）并返回键定义的函数
+ *
+ * @example
+ * ```typescript
+ * const userKey = defineCacheKey<User>()('org:{org}:user:{id}', { ttl: 60_000 })
+ * cache.set(userKey({ org: 1, id: 7 }), user)
+ * cache.get(userKey({ org: 1, id: 7 })) // User | undefined
+ * cache.invalidateByPattern(userKey.pattern({ org: 1 })) // 'org:1:user:*'
+ * ```
+ */
+export function defineCacheKey<V = unknown>(): <P extends string>(template: P, defaults?: SetOptions) => CacheKeyDefinition<V, P> {
+  return (template, defaults = {}) => createCacheKeyDefinition<V, typeof template>(template, defaults)
+}
+
+/**
+ * 定义缓存键模式
+ *
+ * 值类型通过泛型声明，模板作为键；运行时参数为每个模板的默认写入选项。
+ *
+ * @param defaults - 每个模板的默认写入选项
+ * @returns 以模板为键的键定义
+ *
+ * @example
+ * ```typescript
+ * const keys = defineCacheSchema<{ 'user:{id}': User, 'settings': Settings }>({
+ *   'user:{id}': { ttl: 60_000, tags: ['users'] },
+ *   'settings': {},
+ * })
+ * cache.get(keys['user:{id}']({ id: 1 })) // User | undefined
+ * ```
+ */
+export function defineCacheSchema<S extends object>(defaults: { [P in keyof S & string]: SetOptions }): CacheSchema<S> {
+  const schema: Record<string, CacheKeyDefinition> = {}
+  for (const [template, options] of Object.entries<SetOptions>(defaults)) {
+    schema[template] = createCacheKeyDefinition(template, options)
+  }
+  return schema as unknown as CacheSchema<S>
+}
+
+/**
+ * 判断是否为类型化缓存键
+ * @param key - 字符串键或类型化键
+ */
+export function isCacheKey(key: unknown): key is CacheKey {
+  return typeof key === 'object' && key !== null && typeof (key as CacheKey).key === 'string'
+}
@@ -0,0 +1,64 @@
+/**
+ * 时钟
+ * @module @ldesign/cache/core/utils/clock
+ */
+
+import type { CacheClock } from '../types'
+
+/**
+ * 系统时钟，基于 `Date.now()`
+ */
+export const systemClock: CacheClock = {
+  now: () => Date.now(),
+}
+
+/**
+ * 手动控制的时钟，只在调用 `set`/`advance` 时前进
+ *
+ * 用于测试过期逻辑而不依赖假定时器；定时器驱动的清理仍按真实时间触发。
+ *
+ * @example
+ * ```typescript
+ * const clock = new ManualClock(Date.UTC(2024, 0, 1))
+ * const cache = new CacheManager({ clock, cleanupInterval: 0 })
+ *
+ * cache.set('key', 'value', 1000)
+ * clock.advance(1000)
+ * cache.get('key') // undefined
+ * ```
+ */
+export class ManualClock implements CacheClock {
+  private current: number
+
+  /**
+   * @param start - 初始时间戳，默认为创建时的系统时间
+   */
+  constructor(start: number = Date.now()) {
+    this.current = start
+  }
+
+  /**
+   * 获取当前时间戳
+   */
+  now(): number {
+    return this.current
+  }
+
+  /**
+   * 设置当前时间
+   * @param time - 时间戳或 Date
+   */
+  set(time: number | Date): void {
+    this.current = time instanceof Date ? time.getTime() : time
+  }
+
+  /**
+   * 前进指定毫秒数
+   * @param ms - 毫秒数
+   * @returns 前进后的时间戳
+   */
+  advance(ms: number): number {
+    this.current += ms
+    return this.current
+  }
+}
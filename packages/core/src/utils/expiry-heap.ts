@@ -0,0 +1,133 @@
+/**
+ * 过期时间最小堆
+ * @module @ldesign/cache/core/utils/expiry-heap
+ */
+
+/**
+ * 堆节点：键与写入时的过期时间
+ */
+interface ExpiryEntry {
+  key: string
+  expiresAt: number
+}
+
+/**
+ * 按过期时间排序的最小堆
+ *
+ * 采用惰性删除：键的过期时间变化时直接再次 `push`，旧节点在弹出时由调用方
+ * 通过 `isCurrent` 过滤，或在 `compact` 时统一丢弃。
+ *
+ * @example
+ * ```typescript
+ * const heap = new ExpiryHeap()
+ * heap.push('a', 2000)
+ * heap.push('b', 1000)
+ * heap.peek() // 1000
+ * heap.popDue(1500, () => true) // ['b']
+ * ```
+ */
+export class ExpiryHeap {
+  private entries: ExpiryEntry[] = []
+
+  /**
+   * 堆中的节点数量（包括尚未丢弃的旧节点）
+   */
+  get size(): number {
+    return this.entries.length
+  }
+
+  /**
+   * 记录键的过期时间
+   * @param key - 缓存键
+   * @param expiresAt - 过期时间戳
+   */
+  push(key: string, expiresAt: number): void {
+    this.entries.push({ key, expiresAt })
+    this.siftUp(this.entries.length - 1)
+  }
+
+  /**
+   * 最早的过期时间
+   * @returns 过期时间戳，堆为空时返回 undefined
+   */
+  peek(): number | undefined {
+    return this.entries[0]?.expiresAt
+  }
+
+  /**
+   * 弹出所有已到期的键
+   * @param now - 当前时间
+   * @param isCurrent - 节点是否仍是该键当前的过期时间
+   * @returns 到期的键（按过期时间排序）
+   */
+  popDue(now: number, isCurrent: (key: string, expiresAt: number) => boolean): string[] {
+    const due: string[] = []
+    while (this.entries.length > 0 && this.entries[0].expiresAt <= now) {
+      const { key, expiresAt } = this.pop()
+      if (isCurrent(key, expiresAt)) {
+        due.push(key)
+      }
+    }
+    return due
+  }
+
+  /**
+   * 丢弃旧节点并重建堆
+   * @param isCurrent - 节点是否仍是该键当前的过期时间
+   */
+  compact(isCurrent: (key: string, expiresAt: number) => boolean): void {
+    this.entries = this.entries.filter(entry => isCurrent(entry.key, entry.expiresAt))
+    for (let i = (this.entries.length >> 1) - 1; i >= 0; i--) {
+      this.siftDown(i)
+    }
+  }
+
+  /**
+   * 清空堆
+   */
+  clear(): void {
+    this.entries = []
+  }
+
+  private pop(): ExpiryEntry {
+    const top = this.entries[0]
+    const last = this.entries.pop()!
+    if (this.entries.length > 0) {
+      this.entries[0] = last
+      this.siftDown(0)
+    }
+    return top
+  }
+
+  private siftUp(index: number): void {
+    const entry = this.entries[index]
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (this.entries[parent].expiresAt <= entry.expiresAt) {
+        break
+      }
+      this.entries[index] = this.entries[parent]
+      index = parent
+    }
+    this.entries[index] = entry
+  }
+
+  private siftDown(index: number): void {
+    const length = this.entries.length
+    const entry = this.entries[index]
+    for (;;) {
+      const left = index * 2 + 1
+      if (left >= length) {
+        break
+      }
+      const right = left + 1
+      const child = right < length && this.entries[right].expiresAt < this.entries[left].expiresAt ? right : left
+      if (this.entries[child].expiresAt >= entry.expiresAt) {
+        break
+      }
+      this.entries[index] = this.entries[child]
+      index = child
+    }
+    this.entries[index] = entry
+  }
+}
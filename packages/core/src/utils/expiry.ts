@@ -0,0 +1,64 @@
+/**
+ * 绝对过期时间与日历过期策略
+ * @module @ldesign/cache/core/utils/expiry
+ */
+
+import type { ExpiryPolicy, ExpiryPolicyOptions, SetOptions } from '../types'
+import { ERROR_MESSAGES } from '../constants'
+
+/**
+ * 一天的毫秒数
+ */
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * 创建按固定间隔对齐的过期策略，条目在下一个间隔边界过期
+ *
+ * 边界按时区对齐：`nextInterval(3_600_000)` 表示下一个整点。
+ * @param interval - 间隔（毫秒）
+ * @param options - 时区选项，默认使用写入时刻的本地时区偏移
+ * @returns 过期策略
+ * @throws 如果间隔不是正数
+ *
+ * @example
+ * ```typescript
+ * cache.set('report', data, { expiresAt: nextInterval(15 * 60_000) })
+ * ```
+ */
+export function nextInterval(interval: number, options: ExpiryPolicyOptions = {}): ExpiryPolicy {
+  if (!Number.isFinite(interval) || interval <= 0) {
+    throw new Error(ERROR_MESSAGES.INVALID_EXPIRY_INTERVAL)
+  }
+
+  return (now) => {
+    const offset = (options.utcOffset ?? -new Date(now).getTimezoneOffset()) * 60_000
+    return (Math.floor((now + offset) / interval) + 1) * interval - offset
+  }
+}
+
+/**
+ * 创建在当天结束（下一个午夜）时过期的策略
+ * @param options - 时区选项，如 `{ utcOffset: 480 }` 表示 UTC+8
+ * @returns 过期策略
+ *
+ * @example
+ * ```typescript
+ * cache.set('daily-quota', quota, { expiresAt: endOfDay({ utcOffset: 480 }) })
+ * ```
+ */
+export function endOfDay(options: ExpiryPolicyOptions = {}): ExpiryPolicy {
+  return nextInterval(DAY, options)
+}
+
+/**
+ * 将 `SetOptions.expiresAt` 解析为时间戳
+ * @param expiresAt - 时间戳、Date 或过期策略
+ * @param now - 当前时间
+ * @returns 时间戳，无法解析时返回 NaN
+ */
+export function resolveExpiresAt(expiresAt: NonNullable<SetOptions['expiresAt']>, now: number): number {
+  if (typeof expiresAt === 'function') {
+    return expiresAt(now)
+  }
+  return expiresAt instanceof Date ? expiresAt.getTime() : expiresAt
+}
@@ -3,9 +3,15 @@
  * @module @ldesign/cache/core/utils
  */
 
+export * from './cache-key'
+export * from './clock'
+export * from './expiry'
+export * from './expiry-heap'
 export * from './hash'
 export * from './timer'
 export * from './validator'
 export * from './memory'
 export * from './debounce'
+export * from './pattern'
+export * from './prefix-index'
 
@@ -221,13 +221,12 @@ export class MemoryTracker {
    * @param key - 缓存键
    * @param value - 缓存值
    * @param metadata - 元数据
+   * @param size - 已估算的大小（字节），省略时按 key、value 和 metadata 估算
    */
-  track(key: string, value: unknown, metadata?: object): void {
+  track(key: string, value: unknown, metadata?: object, size = estimateCacheItemSize(key, value, metadata)): void {
     // 先移除旧的记录（如果存在）
     this.untrack(key)
 
-    // 计算新的大小
-    const size = estimateCacheItemSize(key, value, metadata)
     this.itemSizes.set(key, size)
     this.totalSize += size
   }
@@ -0,0 +1,98 @@
+/**
+ * 键模式匹配工具函数
+ * @module @ldesign/cache/core/utils/pattern
+ */
+
+/**
+ * 层级分隔符（`org:42:users` 是 `org:42` 的后代）
+ */
+export const PATTERN_SEPARATOR = ':'
+
+/**
+ * 判断字符串是否包含通配符
+ * @param pattern - 模式字符串
+ * @returns 是否为 glob 模式
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return pattern.includes('*') || pattern.includes('?')
+}
+
+/**
+ * 获取 glob 模式第一个通配符之前的字面量前缀
+ * @param pattern - glob 模式
+ * @returns 字面量前缀，用于前缀索引查找
+ */
+export function getPatternPrefix(pattern: string): string {
+  const index = pattern.search(/[*?]/)
+  return index === -1 ? pattern : pattern.slice(0, index)
+}
+
+/**
+ * 将 glob 模式编译为正则表达式
+ *
+ * - `*` 匹配任意字符，但不跨越 `:`
+ * - `**` 匹配任意字符（可跨越 `:`）
+ * - `?` 匹配单个非 `:` 字符
+ *
+ * @param pattern - glob 模式
+ * @returns 完整匹配的正则表达式
+ *
+ * @example
+ * ```typescript
+ * globToRegExp('user:*:profile').test('user:42:profile') // true
+ * globToRegExp('user:**').test('user:42:posts:1') // true
+ * ```
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        source += '.*'
+        i++
+      }
+      else {
+        source += `[^${PATTERN_SEPARATOR}]*`
+      }
+    }
+    else if (char === '?') {
+      source += `[^${PATTERN_SEPARATOR}]`
+    }
+    else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * 创建模式匹配函数
+ * @param pattern - glob 字符串或正则表达式（正则的 g/y 标志会被忽略）
+ * @returns 匹配函数
+ */
+export function createPatternMatcher(pattern: string | RegExp): (value: string) => boolean {
+  if (typeof pattern === 'string') {
+    if (!isGlobPattern(pattern)) {
+      return value => value === pattern
+    }
+    const regex = globToRegExp(pattern)
+    return value => regex.test(value)
+  }
+
+  // 去掉有状态的标志，避免 lastIndex 影响连续匹配
+  const regex = new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+  return value => regex.test(value)
+}
+
+/**
+ * 判断路径是否等于祖先路径或位于其下层
+ * @param path - 待检查路径
+ * @param ancestor - 祖先路径
+ * @returns 是否为自身或后代
+ */
+export function isDescendantPath(path: string, ancestor: string): boolean {
+  return path === ancestor || path.startsWith(`${ancestor}${PATTERN_SEPARATOR}`)
+}
@@ -0,0 +1,181 @@
+/**
+ * 前缀索引
+ * @module @ldesign/cache/core/utils/prefix-index
+ */
+
+import { PATTERN_SEPARATOR } from './pattern'
+
+/**
+ * 前缀树节点
+ */
+class PrefixNode {
+  readonly children = new Map<string, PrefixNode>()
+  terminal = false
+}
+
+/**
+ * 按 `:` 分段的前缀树
+ *
+ * 用于在不扫描全部键的情况下查找某个前缀或层级下的所有路径。
+ *
+ * @example
+ * ```typescript
+ * const index = new PrefixIndex()
+ * index.add('user:1:profile')
+ * index.add('user:2:profile')
+ * index.collect('user:') // ['user:1:profile', 'user:2:profile']
+ * index.descendants('user:1') // ['user:1:profile']
+ * ```
+ */
+export class PrefixIndex {
+  private root = new PrefixNode()
+  private count = 0
+
+  /**
+   * 已索引的路径数量
+   */
+  get size(): number {
+    return this.count
+  }
+
+  /**
+   * 添加路径
+   * @param path - 路径
+   */
+  add(path: string): void {
+    let node = this.root
+    for (const segment of path.split(PATTERN_SEPARATOR)) {
+      let child = node.children.get(segment)
+      if (!child) {
+        child = new PrefixNode()
+        node.children.set(segment, child)
+      }
+      node = child
+    }
+
+    if (!node.terminal) {
+      node.terminal = true
+      this.count++
+    }
+  }
+
+  /**
+   * 删除路径，并回收空节点
+   * @param path - 路径
+   * @returns 是否删除成功
+   */
+  remove(path: string): boolean {
+    const segments = path.split(PATTERN_SEPARATOR)
+    const trail: PrefixNode[] = [this.root]
+
+    for (const segment of segments) {
+      const child = trail[trail.length - 1].children.get(segment)
+      if (!child) {
+        return false
+      }
+      trail.push(child)
+    }
+
+    const node = trail[trail.length - 1]
+    if (!node.terminal) {
+      return false
+    }
+
+    node.terminal = false
+    this.count--
+
+    for (let i = segments.length; i > 0; i--) {
+      const current = trail[i]
+      if (current.terminal || current.children.size > 0) {
+        break
+      }
+      trail[i - 1].children.delete(segments[i - 1])
+    }
+
+    return true
+  }
+
+  /**
+   * 检查路径是否存在
+   * @param path - 路径
+   */
+  has(path: string): boolean {
+    return this.findNode(path.split(PATTERN_SEPARATOR))?.terminal ?? false
+  }
+
+  /**
+   * 获取以指定字符串开头的所有路径（前缀可以停在分段中间）
+   * @param prefix - 前缀
+   * @returns 匹配的路径
+   */
+  collect(prefix: string): string[] {
+    const segments = prefix.split(PATTERN_SEPARATOR)
+    const partial = segments.pop()!
+    const parent = this.findNode(segments)
+    if (!parent) {
+      return []
+    }
+
+    const result: string[] = []
+    for (const [segment, child] of parent.children) {
+      if (segment.startsWith(partial)) {
+        this.gather(child, [...segments, segment], result)
+      }
+    }
+    return result
+  }
+
+  /**
+   * 获取路径自身及其所有下层路径（`org:42` 包含 `org:42:users`，不包含 `org:420`）
+   * @param path - 祖先路径
+   * @returns 匹配的路径
+   */
+  descendants(path: string): string[] {
+    const segments = path.split(PATTERN_SEPARATOR)
+    const node = this.findNode(segments)
+    if (!node) {
+      return []
+    }
+
+    const result: string[] = []
+    this.gather(node, segments, result)
+    return result
+  }
+
+  /**
+   * 获取所有路径
+   */
+  keys(): string[] {
+    return this.collect('')
+  }
+
+  /**
+   * 清空索引
+   */
+  clear(): void {
+    this.root = new PrefixNode()
+    this.count = 0
+  }
+
+  private findNode(segments: string[]): PrefixNode | undefined {
+    let node: PrefixNode | undefined = this.root
+    for (const segment of segments) {
+      node = node.children.get(segment)
+      if (!node) {
+        return undefined
+      }
+    }
+    return node
+  }
+
+  private gather(node: PrefixNode, segments: string[], result: string[]): void {
+    if (node.terminal) {
+      result.push(segments.join(PATTERN_SEPARATOR))
+    }
+    for (const [segment, child] of node.children) {
+      segments.push(segment)
+      this.gather(child, segments, result)
+      segments.pop()
+    }
+  }
+}
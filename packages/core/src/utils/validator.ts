@@ -52,13 +52,14 @@ export function validateMaxSize(maxSize: number): void {
 /**
  * 检查是否过期
  * @param expiresAt - 过期时间戳
+ * @param now - 当前时间，默认为 `Date.now()`
  * @returns 是否过期
  */
-export function isExpired(expiresAt?: number): boolean {
+export function isExpired(expiresAt?: number, now: number = Date.now()): boolean {
   if (!expiresAt) {
     return false
   }
-  return Date.now() >= expiresAt
+  return now >= expiresAt
 }
 
 /**
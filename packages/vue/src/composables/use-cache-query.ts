@@ -23,6 +23,7 @@ export interface UseCacheQueryOptions<T> {
   staleTime?: number
   swr?: boolean
   dedupe?: boolean
+  staleIfError?: number
 }
 
 export interface UseCacheQueryReturn<T> {
@@ -73,6 +74,7 @@ export function useCacheQuery<T = any>(
     staleTime = 0,
     swr = false,
     dedupe = true,
+    staleIfError,
   } = options
 
   const { cache, ownsCache } = resolveCache(explicitCache)
@@ -106,11 +108,13 @@ export function useCacheQuery<T = any>(
         dedupe,
         retry: retryCount,
         retryDelay,
+        staleIfError,
       })
 
       data.value = result.data
       isFromCache.value = result.fromCache
       isStale.value = result.stale
+      error.value = result.error ?? null
     }
     catch (err) {
       error.value = err as Error
@@ -138,11 +142,13 @@ export function useCacheQuery<T = any>(
         dedupe,
         retry: retryCount,
         retryDelay,
+        staleIfError,
       })
 
       data.value = result.data
       isFromCache.value = result.fromCache
       isStale.value = result.stale
+      error.value = result.error ?? null
     }
     catch (err) {
       error.value = err as Error
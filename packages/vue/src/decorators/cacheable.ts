@@ -13,6 +13,7 @@ export interface CacheableOptions {
   priority?: number
   cacheUndefined?: boolean
   cacheNull?: boolean
+  negativeTTL?: number
 }
 
 function defaultKeyGenerator(methodName: string, ...args: any[]): string {
@@ -30,6 +31,7 @@ export function Cacheable(options: CacheableOptions) {
     priority,
     cacheUndefined = false,
     cacheNull = false,
+    negativeTTL,
   } = options
 
   return function (
@@ -45,7 +47,7 @@ export function Cacheable(options: CacheableOptions) {
         : defaultKeyGenerator(propertyKey, ...args)
 
       const cached = cache.get(cacheKey)
-      if (cached !== undefined) {
+      if (cached !== undefined || cache.isMissing(cacheKey)) {
         return cached
       }
 
@@ -59,6 +61,9 @@ export function Cacheable(options: CacheableOptions) {
       if (shouldCache) {
         cache.set(cacheKey, result, { ttl, tags, namespace, priority })
       }
+      else if (result == null && negativeTTL !== undefined) {
+        cache.setMissing(cacheKey, negativeTTL)
+      }
 
       return result
     }
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CacheManager,
+  CacheStrategy,
+  createJSONSerializer,
+  FIFOCache,
+  LFUCache,
+  LRUCache,
+  ManualClock,
+  MemoryStorageAdapter,
+  TTLCache,
+} from '../packages/core/src'
+
+describe('cache-core injectable clock', () => {
+  it('expires entries on the injected clock for every strategy', () => {
+    for (const strategy of Object.values(CacheStrategy)) {
+      const clock = new ManualClock(1_000)
+      const cache = new CacheManager<string>({ strategy, clock, cleanupInterval: 0 })
+
+      cache.set('a', 'A', 500)
+      expect(cache.getItem('a')).toMatchObject({ createdAt: 1_000, expiresAt: 1_500 })
+
+      clock.advance(499)
+      expect(cache.get('a')).toBe('A')
+      clock.advance(1)
+      expect(cache.get('a')).toBeUndefined()
+      expect(cache.getStats().lastUpdated).toBe(1_500)
+      cache.destroy()
+    }
+  })
+
+  it('drives standalone strategies', () => {
+    const clock = new ManualClock(0)
+    const caches = [
+      new LRUCache<string>(10, undefined, clock),
+      new LFUCache<string>(10, undefined, clock),
+      new FIFOCache<string>(10, undefined, clock),
+      new TTLCache<string>(100, 0, clock),
+    ]
+
+    for (const cache of caches) {
+      cache.set('k', 'v', 100)
+    }
+    clock.set(new Date(101))
+    expect(caches.map(cache => cache.get('k'))).toEqual([undefined, undefined, undefined, undefined])
+  })
+
+  it('uses the clock for queries, sliding expiry and restore', async () => {
+    const clock = new ManualClock(10_000)
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    const cache = new CacheManager<number>({ clock, storage, cleanupInterval: 0 })
+
+    const first = await cache.query.fetch({ key: 'q', fetcher: async () => 1, staleTime: 100 })
+    expect(first.updatedAt).toBe(10_000)
+    clock.advance(100)
+    expect(await cache.query.fetch({ key: 'q', fetcher: async () => 2, staleTime: 100 })).toEqual({ data: 2, fromCache: false, stale: false, updatedAt: 10_100 })
+
+    cache.set('s', 1, { ttl: 1000, sliding: true })
+    clock.advance(800)
+    cache.get('s')
+    expect(cache.getItem('s')?.expiresAt).toBe(11_900)
+
+    const restored = new CacheManager<number>({ clock, storage, cleanupInterval: 0 })
+    expect(restored.getItem('s')?.expiresAt).toBe(11_900)
+    clock.advance(1000)
+    const late = new CacheManager<number>({ clock, storage, cleanupInterval: 0 })
+    expect(late.has('s')).toBe(false)
+  })
+})
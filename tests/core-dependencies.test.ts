@@ -0,0 +1,79 @@
+import type { EvictionReason } from '../packages/core/src'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheEventType, CacheManager, CacheStrategy, createJSONSerializer, MemoryStorageAdapter } from '../packages/core/src'
+
+describe('cache-core dependencies', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('cascades deletes to dependents transitively', () => {
+    const evicted: Array<[string, EvictionReason]> = []
+    const cache = new CacheManager<string>({ cleanupInterval: 0, onEvict: (key, _value, reason) => evicted.push([key, reason]) })
+    const reasons: string[] = []
+    cache.on(CacheEventType.EVICT, event => reasons.push(`${event.key}:${event.metadata?.reason}`))
+
+    cache.set('user:42', 'u')
+    cache.set('org:7', 'o')
+    cache.set('dashboard:42', 'd', { dependsOn: ['user:42', 'org:7'] })
+    cache.set('widget:1', 'w', { dependsOn: ['dashboard:42'] })
+    cache.set('unrelated', 'x')
+
+    expect(cache.getItem('dashboard:42')?.dependencies).toEqual(['user:42', 'org:7'])
+
+    cache.delete('org:7')
+    expect(cache.keys().sort()).toEqual(['unrelated', 'user:42'])
+    expect(reasons).toEqual(['dashboard:42:dependency', 'widget:1:dependency'])
+    expect(evicted).toEqual([['dashboard:42', 'dependency'], ['widget:1', 'dependency']])
+  })
+
+  it('cascades expirations and capacity evictions', () => {
+    const cache = new CacheManager<string>({ strategy: CacheStrategy.FIFO, maxSize: 3, cleanupInterval: 0 })
+
+    cache.set('session', 's', 1000)
+    cache.set('view', 'v', { dependsOn: ['session'] })
+    vi.advanceTimersByTime(1001)
+    expect(cache.get('session')).toBeUndefined()
+    expect(cache.has('view')).toBe(false)
+
+    cache.set('a', 'A')
+    cache.set('b', 'B', { dependsOn: ['a'] })
+    cache.set('c', 'C')
+    cache.set('d', 'D')
+    expect(cache.keys().sort()).toEqual(['c', 'd'])
+  })
+
+  it('terminates on dependency cycles', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    cache.set('a', 'A', { dependsOn: ['c'] })
+    cache.set('b', 'B', { dependsOn: ['a'] })
+    cache.set('c', 'C', { dependsOn: ['b'] })
+    cache.set('self', 'S', { dependsOn: ['self'] })
+
+    expect(cache.delete('a')).toBe(true)
+    expect(cache.size).toBe(1)
+    expect(cache.delete('self')).toBe(true)
+    expect(cache.size).toBe(0)
+  })
+
+  it('drops stale edges on overwrite and keeps them across persistence', () => {
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    const cache = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    cache.set('parent', 'p')
+    cache.set('other', 'o')
+    cache.set('child', 'c', { dependsOn: ['parent'] })
+    cache.set('child', 'c2', { dependsOn: ['other'] })
+
+    cache.delete('parent')
+    expect(cache.get('child')).toBe('c2')
+
+    const restored = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    restored.delete('other')
+    expect(restored.has('child')).toBe(false)
+    expect(storage.keys()).toEqual([])
+  })
+})
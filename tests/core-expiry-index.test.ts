@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheEventType, CacheManager, CacheStrategy, ExpiryHeap } from '../packages/core/src'
+
+describe('cache-core expiry index', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('pops due keys in deadline order and skips superseded nodes', () => {
+    const heap = new ExpiryHeap()
+    const current = new Map([['a', 300], ['b', 100], ['c', 200]])
+    for (const [key, expiresAt] of current) {
+      heap.push(key, expiresAt)
+    }
+    heap.push('a', 50)
+
+    const isCurrent = (key: string, expiresAt: number) => current.get(key) === expiresAt
+    expect(heap.peek()).toBe(50)
+    expect(heap.popDue(250, isCurrent)).toEqual(['b', 'c'])
+    expect(heap.size).toBe(1)
+
+    heap.push('a', 400)
+    current.set('a', 400)
+    heap.compact(isCurrent)
+    expect(heap.size).toBe(1)
+    expect(heap.peek()).toBe(400)
+  })
+
+  it('expires entries at their deadline with a single timer', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 60_000 })
+    const expired: string[] = []
+    cache.on(CacheEventType.EXPIRE, event => expired.push(event.key!))
+
+    cache.set('late', 'L', 5000)
+    cache.set('soon', 'S', 1000)
+    cache.set('forever', 'F')
+    expect(vi.getTimerCount()).toBe(1)
+
+    vi.advanceTimersByTime(1000)
+    expect(expired).toEqual(['soon'])
+    vi.advanceTimersByTime(4000)
+    expect(expired).toEqual(['soon', 'late'])
+    expect(cache.keys()).toEqual(['forever'])
+
+    cache.destroy()
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it('keeps a single timer with the TTL strategy', () => {
+    const cache = new CacheManager<string>({ strategy: CacheStrategy.TTL, cleanupInterval: 60_000 })
+    cache.set('a', 'A', 1000)
+    expect(vi.getTimerCount()).toBe(1)
+
+    vi.advanceTimersByTime(1000)
+    expect(cache.size).toBe(0)
+    cache.destroy()
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it('follows sliding and rewritten deadlines', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    cache.set('s', 'S', { ttl: 1000, sliding: true })
+    cache.set('r', 'R', 1000)
+
+    vi.advanceTimersByTime(800)
+    cache.get('s')
+    cache.set('r', 'R2', 1000)
+    vi.advanceTimersByTime(300)
+
+    expect(cache.cleanup()).toBe(0)
+    expect(cache.size).toBe(2)
+    vi.advanceTimersByTime(700)
+    expect(cache.cleanup()).toBe(2)
+  })
+})
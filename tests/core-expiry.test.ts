@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheManager, createJSONSerializer, endOfDay, MemoryStorageAdapter, nextInterval } from '../packages/core/src'
+
+describe('cache-core absolute expiry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(Date.UTC(2024, 0, 15, 10, 20, 30))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('accepts timestamps and dates in set and mset', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0, defaultTTL: 10, ttlJitter: 0.5 })
+    const at = Date.now() + 5000
+
+    cache.set('a', 'A', { expiresAt: at })
+    cache.set('b', 'B', { expiresAt: new Date(at), ttl: 1 })
+    cache.mset([['c', 'C'], ['d', 'D']], { expiresAt: at })
+
+    for (const key of ['a', 'b', 'c', 'd']) {
+      expect(cache.getItem(key)).toMatchObject({ expiresAt: at, ttl: 5000 })
+    }
+
+    vi.advanceTimersByTime(5000)
+    expect(cache.get('a')).toBeUndefined()
+    expect(() => cache.set('e', 'E', { expiresAt: new Date('invalid') })).toThrow()
+  })
+
+  it('aligns calendar policies to a timezone', () => {
+    expect(endOfDay({ utcOffset: 0 })(Date.now())).toBe(Date.UTC(2024, 0, 16))
+    expect(endOfDay({ utcOffset: 480 })(Date.now())).toBe(Date.UTC(2024, 0, 15, 16))
+    expect(nextInterval(3_600_000, { utcOffset: 0 })(Date.now())).toBe(Date.UTC(2024, 0, 15, 11))
+    expect(nextInterval(3_600_000, { utcOffset: 330 })(Date.now())).toBe(Date.UTC(2024, 0, 15, 10, 30))
+    expect(() => nextInterval(0)).toThrow()
+
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    cache.set('daily', 'quota', { expiresAt: endOfDay({ utcOffset: 0 }) })
+    expect(cache.getItem('daily')?.expiresAt).toBe(Date.UTC(2024, 0, 16))
+  })
+
+  it('works through query.fetch and persistence restore', async () => {
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    const cache = new CacheManager<number>({ storage, cleanupInterval: 0 })
+    const hourly = nextInterval(3_600_000, { utcOffset: 0 })
+
+    await cache.query.fetch({ key: 'report', fetcher: async () => 42, expiresAt: hourly })
+    expect(cache.getItem('report')?.expiresAt).toBe(Date.UTC(2024, 0, 15, 11))
+
+    vi.advanceTimersByTime(60_000)
+    const restored = new CacheManager<number>({ storage, cleanupInterval: 0 })
+    expect(restored.getItem('report')?.expiresAt).toBe(Date.UTC(2024, 0, 15, 11))
+
+    vi.setSystemTime(Date.UTC(2024, 0, 15, 11))
+    expect(restored.get('report')).toBeUndefined()
+  })
+
+  it('keeps the calendar boundary when refreshed ahead', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    cache.registerLoader('daily', () => 'reloaded')
+    cache.set('daily', 'quota', { expiresAt: endOfDay({ utcOffset: 0 }) })
+
+    vi.setSystemTime(Date.UTC(2024, 0, 15, 22))
+    expect(cache.get('daily')).toBe('quota')
+    await vi.runAllTimersAsync()
+
+    expect(cache.getItem('daily')).toMatchObject({ value: 'reloaded', expiresAt: Date.UTC(2024, 0, 16) })
+  })
+
+  it('keeps the boundary of restored entries when refreshed ahead', async () => {
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    const cache = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    cache.set('daily', 'quota', { expiresAt: endOfDay({ utcOffset: 0 }) })
+
+    const restored = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    restored.registerLoader('daily', () => 'reloaded')
+    expect(restored.getItem('daily')?.deadline).toBe(Date.UTC(2024, 0, 16))
+
+    vi.setSystemTime(Date.UTC(2024, 0, 15, 22))
+    expect(restored.get('daily')).toBe('quota')
+    await vi.runAllTimersAsync()
+
+    expect(restored.getItem('daily')).toMatchObject({ value: 'reloaded', expiresAt: Date.UTC(2024, 0, 16) })
+  })
+})
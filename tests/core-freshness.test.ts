@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheEventType, CacheManager, createJSONSerializer, MemoryStorageAdapter } from '../packages/core/src'
+
+describe('cache-core soft and hard ttl', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('exposes freshUntil and reports staleness on reads', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    const stale: Array<boolean | undefined> = []
+    cache.on(CacheEventType.GET, event => stale.push(event.metadata?.stale))
+    const now = Date.now()
+
+    cache.set('a', 'A', { ttl: 1000, staleTtl: 400 })
+    cache.set('b', 'B', 1000)
+    cache.set('c', 'C', { ttl: 1000, staleTtl: 5000 })
+    expect(cache.getItem('a')).toMatchObject({ freshUntil: now + 400, expiresAt: now + 1000 })
+    expect(cache.getItem('b')).toMatchObject({ freshUntil: now + 1000, expiresAt: now + 1000 })
+    expect(cache.getItem('c')?.freshUntil).toBe(now + 1000)
+
+    expect(cache.lookup('a')).toEqual({ status: 'hit', value: 'A', stale: false })
+    vi.advanceTimersByTime(500)
+    expect(cache.lookup('a')).toEqual({ status: 'hit', value: 'A', stale: true })
+    expect(cache.get('a')).toBe('A')
+    cache.get('b')
+    cache.get('missing')
+    expect(stale).toEqual([false, true, true, false, undefined])
+
+    expect(() => cache.set('d', 'D', { staleTtl: -1 })).toThrow()
+  })
+
+  it('slides the soft expiry with the hard one', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    cache.set('s', 'S', { ttl: 1000, staleTtl: 300, sliding: true })
+
+    vi.advanceTimersByTime(200)
+    cache.get('s')
+    expect(cache.getItem('s')).toMatchObject({ freshUntil: Date.now() + 300, expiresAt: Date.now() + 1000 })
+  })
+
+  it('decides query staleness from entry metadata', async () => {
+    const cache = new CacheManager<number>({ cleanupInterval: 0 })
+    let version = 0
+    const fetcher = async () => ++version
+
+    await cache.query.fetch({ key: 'q', fetcher, ttl: 10_000, staleTime: 1000 })
+    expect(cache.getItem('q')?.freshUntil).toBe(Date.now() + 1000)
+
+    vi.advanceTimersByTime(600)
+    expect((await cache.query.fetch({ key: 'q', fetcher, staleTime: 1000 })).stale).toBe(false)
+    vi.advanceTimersByTime(600)
+    // Reads no longer postpone staleness.
+    const result = await cache.query.fetch({ key: 'q', fetcher, staleTime: 1000, swr: true })
+    expect(result).toMatchObject({ data: 1, stale: true })
+  })
+
+  it('persists the soft expiry', () => {
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    const cache = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    cache.set('k', 'v', { ttl: 1000, staleTtl: 200 })
+    const freshUntil = cache.getItem('k')?.freshUntil
+
+    vi.advanceTimersByTime(100)
+    const restored = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    expect(restored.getItem('k')).toMatchObject({ freshUntil, expiresAt: freshUntil! + 800 })
+  })
+
+  it('rebases the soft expiry on snapshot import', () => {
+    const source = new CacheManager<string>({ cleanupInterval: 0 })
+    source.set('a', 'A', { ttl: 60_000, staleTtl: 10_000 })
+    const snapshot = source.exportSnapshot()
+
+    vi.advanceTimersByTime(50_000)
+    const target = new CacheManager<string>({ cleanupInterval: 0 })
+    target.importSnapshot(snapshot, { rebaseTimestamps: true })
+
+    expect(target.getItem('a')).toMatchObject({ freshUntil: Date.now() + 10_000, expiresAt: Date.now() + 60_000 })
+    expect(target.lookup('a')).toMatchObject({ status: 'hit', stale: false })
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { CacheManager } from '../packages/core/src'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('cache-core getOrSet', () => {
+  it('shares one in-flight loader between concurrent callers', async () => {
+    const cache = new CacheManager<number>({ cleanupInterval: 0 })
+    let calls = 0
+
+    const loader = async () => {
+      calls += 1
+      await delay(10)
+      return 42
+    }
+
+    const results = await Promise.all([
+      cache.getOrSet('answer', loader, { tags: ['math'], namespace: 'demo', priority: 4 }),
+      cache.getOrSet('answer', loader),
+      cache.getOrSet('answer', loader),
+    ])
+
+    expect(results).toEqual([42, 42, 42])
+    expect(calls).toBe(1)
+
+    const item = cache.getItem('answer')
+    expect(item?.tags).toEqual(['math'])
+    expect(item?.namespace).toBe('demo')
+    expect(item?.priority).toBe(4)
+
+    expect(await cache.getOrSet('answer', loader)).toBe(42)
+    expect(calls).toBe(1)
+  })
+
+  it('never caches loader failures', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    let calls = 0
+
+    const failing = async () => {
+      calls += 1
+      throw new Error('backend down')
+    }
+
+    await expect(cache.getOrSet('k', failing)).rejects.toThrow('backend down')
+    expect(cache.has('k')).toBe(false)
+
+    expect(await cache.getOrSet('k', () => 'ok')).toBe('ok')
+    expect(calls).toBe(1)
+  })
+
+  it('supports synchronous loaders', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    let calls = 0
+
+    const loader = () => {
+      calls += 1
+      return 'value'
+    }
+
+    expect(cache.getOrSetSync('k', loader, 1000)).toBe('value')
+    expect(cache.getOrSetSync('k', loader)).toBe('value')
+    expect(calls).toBe(1)
+    expect(cache.getItem('k')?.ttl).toBe(1000)
+
+    expect(() => cache.getOrSetSync('boom', () => {
+      throw new Error('sync failure')
+    })).toThrow('sync failure')
+    expect(cache.has('boom')).toBe(false)
+  })
+})
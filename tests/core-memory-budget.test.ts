@@ -0,0 +1,64 @@
+import type { CacheError } from '../packages/core/src'
+import { describe, expect, it } from 'vitest'
+import { CacheErrorCode, CacheEventType, CacheManager, CacheStrategy, estimateCacheItemSize } from '../packages/core/src'
+
+const payload = (length: number) => 'x'.repeat(length)
+
+describe('cache-core memory budget', () => {
+  it('evicts in strategy order until a write fits maxMemory', () => {
+    const entrySize = estimateCacheItemSize('a', payload(100))
+    const cache = new CacheManager<string>({
+      strategy: CacheStrategy.LRU,
+      maxSize: 100,
+      maxMemory: entrySize * 3,
+      cleanupInterval: 0,
+    })
+
+    const evicted: Array<{ key?: string, reason?: string }> = []
+    cache.on(CacheEventType.EVICT, event => evicted.push({ key: event.key, reason: event.metadata?.reason }))
+
+    cache.set('a', payload(100))
+    cache.set('b', payload(100))
+    cache.set('c', payload(100))
+    cache.get('a')
+    cache.set('d', payload(100))
+
+    expect(cache.keys().sort()).toEqual(['a', 'c', 'd'])
+    expect(evicted).toEqual([{ key: 'b', reason: 'capacity' }])
+    expect(cache.getStats().memoryUsage).toBeLessThanOrEqual(entrySize * 3)
+    expect(cache.getStats().maxMemory).toBe(entrySize * 3)
+  })
+
+  it('keeps memoryUsage in sync incrementally', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+
+    cache.set('a', payload(10))
+    cache.set('b', payload(20))
+    const expected = estimateCacheItemSize('a', payload(10)) + estimateCacheItemSize('b', payload(20))
+    expect(cache.getStats().memoryUsage).toBe(expected)
+
+    cache.set('a', payload(30))
+    cache.delete('b')
+    expect(cache.getStats().memoryUsage).toBe(estimateCacheItemSize('a', payload(30)))
+
+    cache.clear()
+    expect(cache.getStats().memoryUsage).toBe(0)
+  })
+
+  it('rejects entries larger than maxEntrySize', () => {
+    const errors: CacheError[] = []
+    const cache = new CacheManager<string>({
+      maxEntrySize: 200,
+      cleanupInterval: 0,
+      onError: error => errors.push(error),
+    })
+
+    expect(() => cache.set('big', payload(500))).toThrow()
+    expect(errors[0]?.code).toBe(CacheErrorCode.ENTRY_TOO_LARGE)
+    expect(errors[0]?.key).toBe('big')
+    expect(cache.has('big')).toBe(false)
+
+    cache.set('small', payload(10))
+    expect(cache.get('small')).toBe(payload(10))
+  })
+})
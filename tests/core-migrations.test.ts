@@ -0,0 +1,85 @@
+import type { CacheItem, CacheMigrationReport } from '../packages/core/src'
+import { describe, expect, it } from 'vitest'
+import { CacheEventType, CacheManager, createJSONSerializer, MemoryStorageAdapter } from '../packages/core/src'
+
+function persisted(key: string, value: unknown, extra: Partial<CacheItem> = {}): CacheItem {
+  const now = Date.now()
+  return { key, value, createdAt: now, lastAccessedAt: now, accessCount: 0, ...extra }
+}
+
+describe('cache-core schema migrations', () => {
+  it('stamps writes with the current schema version', () => {
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    const cache = new CacheManager<string>({ storage, schemaVersion: { 'users': 3, '*': 1 }, cleanupInterval: 0 })
+
+    cache.set('u', 'user', { namespace: 'users' })
+    cache.set('p', 'post', { namespace: 'posts' })
+    cache.set('x', 'plain')
+
+    expect(cache.getItem('u')?.version).toBe(3)
+    expect(storage.getItem('p')?.version).toBe(1)
+    expect(storage.getItem('x')?.version).toBe(1)
+  })
+
+  it('upgrades or drops persisted entries and reports the outcome', async () => {
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    storage.setItem('legacy', persisted('legacy', 'Ada Lovelace'))
+    storage.setItem('v1', persisted('v1', { name: 'Alan Turing' }, { version: 1 }))
+    storage.setItem('v2', persisted('v2', { first: 'Grace', last: 'Hopper' }, { version: 2 }))
+    storage.setItem('future', persisted('future', {}, { version: 5 }))
+    storage.setItem('bad', persisted('bad', { name: '' }, { version: 1 }))
+
+    const reports: CacheMigrationReport[] = []
+    const cache = new CacheManager<{ first: string, last: string }>({
+      storage,
+      schemaVersion: 2,
+      migrations: {
+        2: (value: { name: string }) => {
+          const [first, last] = value.name.split(' ')
+          return first ? { first, last } : undefined
+        },
+      },
+      cleanupInterval: 0,
+    })
+    cache.on(CacheEventType.MIGRATE, event => reports.push(event.metadata?.report))
+    await cache.ready()
+
+    expect(cache.get('v1')).toEqual({ first: 'Alan', last: 'Turing' })
+    expect(cache.get('v2')).toEqual({ first: 'Grace', last: 'Hopper' })
+    expect(cache.has('legacy')).toBe(false)
+    expect(cache.has('future')).toBe(false)
+    expect(cache.has('bad')).toBe(false)
+
+    expect(storage.getItem('v1')?.version).toBe(2)
+    expect(storage.keys().sort()).toEqual(['v1', 'v2'])
+
+    expect(reports).toHaveLength(1)
+    expect(reports[0].current).toBe(1)
+    expect(reports[0].upgraded).toEqual([{ key: 'v1', from: 1, to: 2 }])
+    expect(reports[0].dropped).toEqual(expect.arrayContaining([
+      { key: 'legacy', from: 0, reason: 'missing-migration' },
+      { key: 'future', from: 5, reason: 'newer-version' },
+      { key: 'bad', from: 1, reason: 'rejected' },
+    ]))
+  })
+
+  it('migrates per namespace', async () => {
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    storage.setItem('a', persisted('a', 1, { version: 1, namespace: 'counters' }))
+    storage.setItem('b', persisted('b', 'x', { version: 1, namespace: 'labels' }))
+
+    const cache = new CacheManager<unknown>({
+      storage,
+      schemaVersion: { counters: 2, labels: 1 },
+      migrations: {
+        counters: { 2: (value: number) => ({ count: value }) },
+        labels: { 2: () => 'never used' },
+      },
+      cleanupInterval: 0,
+    })
+    await cache.ready()
+
+    expect(cache.get('a')).toEqual({ count: 1 })
+    expect(cache.get('b')).toBe('x')
+  })
+})
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheManager, CacheStrategy } from '../packages/core/src'
+
+describe('cache-core namespace views', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('isolates keys between namespaces', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    const users = cache.namespace('users')
+    const orders = cache.namespace('orders')
+
+    users.set('1', 'Ada')
+    orders.set('1', 'order-1', { tags: ['pending'] })
+
+    expect(users.get('1')).toBe('Ada')
+    expect(orders.get('1')).toBe('order-1')
+    expect(cache.get('users:1')).toBe('Ada')
+    expect(cache.namespace('users')).toBe(users)
+    expect(users.keys()).toEqual(['1'])
+    expect(users.getItem('1')).toMatchObject({ key: '1', namespace: 'users' })
+
+    expect(users.delete('1')).toBe(true)
+    expect(orders.has('1')).toBe(true)
+  })
+
+  it('nests views and clears whole subtrees', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    const app = cache.namespace('app')
+    const users = app.namespace('users')
+
+    app.set('theme', 'dark')
+    users.set('1', 'Ada')
+    cache.set('other', 'x')
+
+    expect(users.name).toBe('app:users')
+    expect(cache.get('app:users:1')).toBe('Ada')
+    expect(app.keys().sort()).toEqual(['theme', 'users:1'])
+    expect(app.size).toBe(2)
+
+    users.clear()
+    expect(app.keys()).toEqual(['theme'])
+
+    app.clear()
+    expect(cache.keys()).toEqual(['other'])
+  })
+
+  it('supports batch operations and scoped invalidation', () => {
+    const cache = new CacheManager<number>({ cleanupInterval: 0 })
+    const view = cache.namespace('stock')
+    const progress: string[] = []
+
+    const written = view.mset([['a:1', 1], ['a:2', 2], ['b:1', 3]], {
+      tags: ['inventory'],
+      onProgress: (_done, _total, key) => progress.push(key),
+    })
+    cache.set('a:1', 9, { tags: ['inventory'] })
+
+    expect(written.succeeded).toEqual(['a:1', 'a:2', 'b:1'])
+    expect(written.allSucceeded).toBe(true)
+    expect(progress).toEqual(['a:1', 'a:2', 'b:1'])
+    expect([...view.mget(['a:1', 'b:1', 'missing'])]).toEqual([['a:1', 1], ['b:1', 3]])
+
+    expect(view.invalidateByPattern('a:*')).toBe(2)
+    expect(view.invalidateByPattern(/^b:/)).toBe(1)
+    expect(cache.get('a:1')).toBe(9)
+
+    view.set('c', 4, { tags: ['inventory'] })
+    view.set('d', 5)
+    expect(view.invalidateByTag('inventory')).toBe(1)
+    expect(view.invalidateWhere(item => item.key === 'd')).toBe(1)
+    expect(cache.keys()).toEqual(['a:1'])
+
+    view.set('e', 6)
+    expect(view.mdel(['e', 'missing']).results).toEqual(new Map([['e', true], ['missing', false]]))
+  })
+
+  it('reports stats per view, aggregated into parents', () => {
+    const cache = new CacheManager<string>({ strategy: CacheStrategy.FIFO, maxSize: 3, cleanupInterval: 0 })
+    const app = cache.namespace('app')
+    const users = app.namespace('users')
+
+    users.set('1', 'Ada', 1000)
+    app.set('theme', 'dark')
+    cache.set('plain', 'x')
+
+    users.get('1')
+    users.get('2')
+    app.get('theme')
+    cache.get('plain')
+
+    vi.advanceTimersByTime(1001)
+    expect(users.get('1')).toBeUndefined()
+
+    cache.set('p2', 'y')
+    cache.set('p3', 'z')
+
+    expect(users.getStats()).toMatchObject({ totalRequests: 3, hits: 1, misses: 2, expirations: 1, size: 0 })
+    expect(app.getStats()).toMatchObject({ totalRequests: 4, hits: 2, misses: 2, expirations: 1, evictions: 1, size: 0 })
+    expect(cache.getStats()).toMatchObject({ totalRequests: 5, evictions: 1 })
+
+    app.set('theme', 'light')
+    expect(app.getStats().memoryUsage).toBeGreaterThan(0)
+
+    cache.resetStats()
+    expect(app.getStats().totalRequests).toBe(0)
+  })
+})
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheManager, defineCacheKey } from '../packages/core/src'
+
+describe('cache-core negative caching', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('remembers misses for their own ttl', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0, negativeTTL: 500 })
+    cache.setMissing('user:404')
+
+    expect(cache.get('user:404')).toBeUndefined()
+    expect(cache.lookup('user:404')).toEqual({ status: 'missing' })
+    expect(cache.lookup('user:1')).toEqual({ status: 'miss' })
+    expect(cache.getStats()).toMatchObject({ negativeHits: 2, misses: 1, hits: 0 })
+    expect(cache.has('user:404')).toBe(false)
+
+    vi.advanceTimersByTime(501)
+    expect(cache.isMissing('user:404')).toBe(false)
+    expect(cache.lookup('user:404')).toEqual({ status: 'miss' })
+  })
+
+  it('clears negative entries on write and delete', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    cache.set('a', 'A')
+    cache.setMissing('a', 1000)
+    expect(cache.has('a')).toBe(false)
+    expect(cache.isMissing('a')).toBe(true)
+
+    cache.set('a', 'A2')
+    expect(cache.lookup('a')).toEqual({ status: 'hit', value: 'A2', stale: false })
+
+    cache.setMissing('b', 1000)
+    cache.delete('b')
+    expect(cache.isMissing('b')).toBe(false)
+
+    cache.setMissing('c', 1000)
+    cache.clear()
+    expect(cache.isMissing('c')).toBe(false)
+  })
+
+  it('skips loaders for known misses', async () => {
+    const cache = new CacheManager<string | null>({ cleanupInterval: 0 })
+    const loader = vi.fn(() => null)
+
+    expect(await cache.getOrSet('async', loader, { negativeTTL: 1000 })).toBeNull()
+    expect(await cache.getOrSet('async', loader, { negativeTTL: 1000 })).toBeUndefined()
+    expect(cache.getOrSetSync('sync', loader, { negativeTTL: 1000 })).toBeNull()
+    expect(cache.getOrSetSync('sync', loader, { negativeTTL: 1000 })).toBeUndefined()
+    expect(loader).toHaveBeenCalledTimes(2)
+
+    vi.advanceTimersByTime(1001)
+    await cache.getOrSet('async', loader, { negativeTTL: 1000 })
+    expect(loader).toHaveBeenCalledTimes(3)
+  })
+
+  it('marks query results and typed keys as missing', async () => {
+    const cache = new CacheManager<unknown>({ cleanupInterval: 0, maxSize: 2 })
+    const result = await cache.query.fetch({ key: 'q', fetcher: async () => undefined, negativeTTL: 1000 })
+    expect(result.missing).toBe(true)
+    expect((await cache.query.fetch({ key: 'q', fetcher: async () => 'x' })).missing).toBe(true)
+
+    const userKey = defineCacheKey<string>()('user:{id}')
+    cache.setMissing(userKey({ id: 1 }))
+    cache.setMissing(userKey({ id: 2 }))
+    expect(cache.isMissing('q')).toBe(false)
+    expect(cache.lookup(userKey({ id: 1 }))).toEqual({ status: 'missing' })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { CacheManager, createPatternMatcher, PrefixIndex } from '../packages/core/src'
+
+function seed() {
+  const cache = new CacheManager<string>({ maxSize: 100, cleanupInterval: 0 })
+  cache.set('user:1:profile', 'p1', { tags: ['org:42:users'], namespace: 'app:users' })
+  cache.set('user:2:profile', 'p2', { tags: ['org:42'], namespace: 'app:users:admins' })
+  cache.set('user:2:settings', 's2', { tags: ['org:420'], namespace: 'app' })
+  cache.set('post:1', 'post', { tags: ['org:7'] })
+  return cache
+}
+
+describe('cache-core pattern invalidation', () => {
+  it('invalidates keys by glob', () => {
+    const cache = seed()
+
+    expect(cache.invalidateByPattern('user:*:profile')).toBe(2)
+    expect(cache.keys().sort()).toEqual(['post:1', 'user:2:settings'])
+
+    expect(cache.invalidateByPattern('user:*')).toBe(0)
+    expect(cache.invalidateByPattern('user:**')).toBe(1)
+    expect(cache.keys()).toEqual(['post:1'])
+  })
+
+  it('invalidates keys by RegExp, ignoring global state', () => {
+    const cache = seed()
+
+    expect(cache.invalidateByPattern(/^user:2:/g)).toBe(2)
+    expect(cache.has('user:1:profile')).toBe(true)
+  })
+
+  it('matches tag and namespace scopes', () => {
+    const cache = seed()
+
+    expect(cache.invalidateByPattern('org:4?', { scope: 'tag' })).toBe(1)
+    expect(cache.has('user:2:profile')).toBe(false)
+
+    expect(cache.invalidateByPattern(/^app:users/, { scope: 'namespace' })).toBe(1)
+    expect(cache.keys().sort()).toEqual(['post:1', 'user:2:settings'])
+  })
+
+  it('clears hierarchical descendants of tags and namespaces', () => {
+    const cache = seed()
+
+    expect(cache.invalidateByTag('org:42', { descendants: true })).toBe(2)
+    expect(cache.has('user:2:settings')).toBe(true)
+
+    const other = seed()
+    expect(other.invalidateByNamespace('app:users')).toBe(1)
+    expect(other.invalidateByNamespace('app', { descendants: true })).toBe(2)
+    expect(other.keys()).toEqual(['post:1'])
+  })
+
+  it('keeps the prefix index in sync with deletes and clears', () => {
+    const index = new PrefixIndex()
+    index.add('a:b:c')
+    index.add('a:b')
+    index.add('a:bc')
+
+    expect(index.collect('a:b').sort()).toEqual(['a:b', 'a:b:c', 'a:bc'])
+    expect(index.descendants('a:b').sort()).toEqual(['a:b', 'a:b:c'])
+
+    expect(index.remove('a:b:c')).toBe(true)
+    expect(index.remove('a:b:c')).toBe(false)
+    expect(index.keys().sort()).toEqual(['a:b', 'a:bc'])
+    expect(index.size).toBe(2)
+
+    const cache = seed()
+    cache.delete('user:1:profile')
+    cache.clear()
+    cache.set('user:9:profile', 'p9')
+    expect(cache.invalidateByPattern('user:*:profile')).toBe(1)
+  })
+
+  it('compiles globs with segment-aware wildcards', () => {
+    expect(createPatternMatcher('a:*:c')('a:b:c')).toBe(true)
+    expect(createPatternMatcher('a:*')('a:b:c')).toBe(false)
+    expect(createPatternMatcher('a.**')('a.b:c')).toBe(true)
+    expect(createPatternMatcher('a.*')('ab')).toBe(false)
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { CacheManager, CacheStrategy, defineCacheKey, LFUCache, LRUCache, ManualClock } from '../packages/core/src'
+
+describe('cache-core peek', () => {
+  it('does not change LRU order', () => {
+    const lru = new LRUCache<string>(2)
+    lru.set('a', 'A')
+    lru.set('b', 'B')
+
+    expect(lru.peek('a')).toBe('A')
+    lru.set('c', 'C')
+    expect(lru.has('a')).toBe(false)
+    expect(lru.has('b')).toBe(true)
+  })
+
+  it('does not change LFU frequency or access counts', () => {
+    const lfu = new LFUCache<string>(10)
+    lfu.set('a', 'A')
+    lfu.get('a')
+
+    const before = lfu.peekItem('a')
+    lfu.peek('a')
+    lfu.peekItem('a')
+    expect(lfu.peekItem('a')).toEqual(before)
+    expect(lfu.peek('missing')).toBeUndefined()
+  })
+
+  it('reads through the manager without touching stats or sliding expiry', () => {
+    for (const strategy of Object.values(CacheStrategy)) {
+      const clock = new ManualClock(0)
+      const cache = new CacheManager<string>({ strategy, clock, cleanupInterval: 0 })
+      const key = defineCacheKey<string>()('typed:{id}')({ id: 1 })
+
+      cache.set(key, 'T')
+      cache.set('s', 'S', { ttl: 1000, sliding: true })
+      clock.advance(500)
+
+      expect(cache.peek(key)).toBe('T')
+      expect(cache.peek('s')).toBe('S')
+      expect(cache.peek('missing')).toBeUndefined()
+      expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0 })
+
+      clock.advance(500)
+      expect(cache.peek('s')).toBeUndefined()
+      expect(cache.has('s')).toBe(false)
+      cache.destroy()
+    }
+  })
+})
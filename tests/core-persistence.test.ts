@@ -0,0 +1,168 @@
+import type { CacheItem, IStorageAdapter } from '../packages/core/src'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { CacheManager, createJSONSerializer, IndexedDBStorageAdapter, MemoryStorageAdapter } from '../packages/core/src'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function createAsyncAdapter(latency = 5): IStorageAdapter & { data: Map<string, CacheItem<any>> } {
+  const data = new Map<string, CacheItem<any>>()
+
+  return {
+    data,
+    async getItem<T>(key: string) {
+      await delay(latency)
+      return (data.get(key) as CacheItem<T> | undefined) ?? null
+    },
+    async setItem<T>(key: string, item: CacheItem<T>) {
+      await delay(latency)
+      data.set(key, item)
+    },
+    async removeItem(key: string) {
+      await delay(latency)
+      data.delete(key)
+    },
+    async clear() {
+      data.clear()
+    },
+    async keys() {
+      await delay(latency)
+      return Array.from(data.keys())
+    },
+    isAvailable: () => true,
+  }
+}
+
+/**
+ * The adapter's private record conversion, reached without an IndexedDB
+ * implementation.
+ */
+interface IndexedDBRecordConversion {
+  cacheItemToStoredItem: (key: string, item: CacheItem<unknown>) => unknown
+  storedItemToCacheItem: (record: unknown) => CacheItem<unknown>
+}
+
+/**
+ * Stores entries in IndexedDB's record format.
+ */
+function createIndexedDBRecordAdapter(): IStorageAdapter {
+  const adapter = new IndexedDBStorageAdapter(createJSONSerializer()) as unknown as IndexedDBRecordConversion
+  const records = new Map<string, unknown>()
+
+  return {
+    getItem: <T>(key: string) => {
+      const record = records.get(key)
+      return record ? adapter.storedItemToCacheItem(structuredClone(record)) as CacheItem<T> : null
+    },
+    setItem: <T>(key: string, item: CacheItem<T>) => {
+      records.set(key, adapter.cacheItemToStoredItem(key, item))
+    },
+    removeItem: (key: string) => {
+      records.delete(key)
+    },
+    clear: () => records.clear(),
+    keys: () => Array.from(records.keys()),
+    isAvailable: () => true,
+  }
+}
+
+describe('cache-core storage adapters', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('hydrates synchronously from a sync adapter with metadata', async () => {
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+
+    const writer = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    writer.set('post:1', 'hello', { tags: ['post'], namespace: 'content', priority: 7, ttl: 60_000 })
+
+    const reader = new CacheManager<string>({ storage, cleanupInterval: 0 })
+
+    expect(reader.get('post:1')).toBe('hello')
+    const item = reader.getItem('post:1')
+    expect(item?.tags).toEqual(['post'])
+    expect(item?.namespace).toBe('content')
+    expect(item?.priority).toBe(7)
+    expect(item?.expiresAt).toBeGreaterThan(Date.now())
+
+    await expect(reader.ready()).resolves.toBeUndefined()
+  })
+
+  it('hydrates from an async adapter once ready resolves', async () => {
+    const storage = createAsyncAdapter()
+    storage.data.set('user:1', {
+      key: 'user:1',
+      value: 'alice',
+      createdAt: Date.now(),
+      lastAccessedAt: Date.now(),
+      accessCount: 0,
+      tags: ['user'],
+    })
+
+    const cache = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    expect(cache.get('user:1')).toBeUndefined()
+
+    await cache.ready()
+
+    expect(cache.get('user:1')).toBe('alice')
+    expect(cache.invalidateByTag('user')).toBe(1)
+
+    await delay(20)
+    expect(storage.data.has('user:1')).toBe(false)
+  })
+
+  it('does not let hydration overwrite writes made while it is pending', async () => {
+    const storage = createAsyncAdapter()
+    storage.data.set('k', {
+      key: 'k',
+      value: 'persisted',
+      createdAt: Date.now(),
+      lastAccessedAt: Date.now(),
+      accessCount: 0,
+    })
+
+    const cache = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    cache.set('k', 'fresh')
+
+    await cache.ready()
+    expect(cache.get('k')).toBe('fresh')
+
+    await delay(20)
+    expect(storage.data.get('k')?.value).toBe('fresh')
+  })
+
+  it('drops expired persisted entries during hydration', async () => {
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    storage.setItem('old', {
+      key: 'old',
+      value: 'gone',
+      createdAt: Date.now() - 1000,
+      lastAccessedAt: Date.now() - 1000,
+      accessCount: 0,
+      ttl: 10,
+      expiresAt: Date.now() - 990,
+    })
+
+    const cache = new CacheManager<string>({ storage, cleanupInterval: 0 })
+
+    expect(cache.has('old')).toBe(false)
+    expect(storage.keys()).toEqual([])
+  })
+
+  it('round-trips entry metadata through the IndexedDB record format', () => {
+    vi.useFakeTimers()
+    const storage = createIndexedDBRecordAdapter()
+    const cache = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    cache.set('k', 'v', { ttl: 60_000, tags: ['t'], namespace: 'ns', priority: 5 })
+    cache.set('p', 'P', { pinned: true })
+    cache.set('s', 'S', { ttl: 1000, sliding: true, maxLifetime: 5000 })
+    cache.set('d', 'D', { expiresAt: Date.now() + 2000 })
+    const { maxExpiresAt } = cache.getItem('s')!
+
+    const restored = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    expect(restored.getItem('k')).toMatchObject({ value: 'v', tags: ['t'], namespace: 'ns', priority: 5 })
+    expect(restored.getItem('s')).toMatchObject({ sliding: true, ttl: 1000, maxExpiresAt })
+    expect(restored.getItem('p')?.pinned).toBe(true)
+    expect(restored.getItem('d')?.deadline).toBe(Date.now() + 2000)
+  })
+})
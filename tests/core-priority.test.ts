@@ -0,0 +1,120 @@
+import type { CacheError, EvictionReason } from '../packages/core/src'
+import { describe, expect, it } from 'vitest'
+import { CacheErrorCode, CacheManager, CacheStrategy, LFUCache } from '../packages/core/src'
+
+describe('cache-core priority eviction', () => {
+  it.each([
+    CacheStrategy.LRU,
+    CacheStrategy.LFU,
+    CacheStrategy.FIFO,
+    CacheStrategy.TTL,
+  ])('evicts lower priority classes first with %s', (strategy) => {
+    const evicted: Array<[string, EvictionReason]> = []
+    const cache = new CacheManager<string>({
+      strategy,
+      maxSize: 3,
+      cleanupInterval: 0,
+      onEvict: (key, _value, reason) => evicted.push([key, reason]),
+    })
+
+    cache.set('important', 'a', { priority: 10 })
+    cache.set('normal', 'b')
+    cache.set('also-important', 'c', { priority: 10 })
+    cache.set('newcomer', 'd')
+
+    expect(evicted).toEqual([['normal', 'priority']])
+    expect(cache.has('important')).toBe(true)
+    expect(cache.has('also-important')).toBe(true)
+  })
+
+  it.each([
+    [CacheStrategy.LRU, 'lru'],
+    [CacheStrategy.LFU, 'lfu'],
+    [CacheStrategy.FIFO, 'fifo'],
+    [CacheStrategy.TTL, 'strategy'],
+  ] as const)('reports priority only when it changed the victim with %s', (strategy, reason) => {
+    const evicted: Array<[string, EvictionReason]> = []
+    const cache = new CacheManager<string>({
+      strategy,
+      maxSize: 2,
+      cleanupInterval: 0,
+      onEvict: (key, _value, evictionReason) => evicted.push([key, evictionReason]),
+    })
+
+    cache.set('first', 'a')
+    cache.set('important', 'b', { priority: 10 })
+    cache.set('second', 'c')
+    cache.set('third', 'd')
+
+    expect(evicted).toEqual([['first', reason], ['second', 'priority']])
+  })
+
+  it('uses the strategy order within one priority class', () => {
+    const evicted: Array<[string, EvictionReason]> = []
+    const cache = new CacheManager<string>({
+      strategy: CacheStrategy.LRU,
+      maxSize: 2,
+      cleanupInterval: 0,
+      onEvict: (key, _value, reason) => evicted.push([key, reason]),
+    })
+
+    cache.set('a', 'a')
+    cache.set('b', 'b')
+    cache.get('a')
+    cache.set('c', 'c')
+
+    expect(evicted).toEqual([['b', 'lru']])
+  })
+
+  it('lets the strategy evict unfiltered when every entry shares one class', () => {
+    const filtered: boolean[] = []
+    const cache = new CacheManager<string>({
+      maxSize: 2,
+      cleanupInterval: 0,
+      strategy: ({ maxSize, clock }) => {
+        const lfu = new LFUCache<string>(maxSize, undefined, clock)
+        const evict = lfu.evict.bind(lfu)
+        lfu.evict = (filter) => {
+          filtered.push(filter !== undefined)
+          return evict(filter)
+        }
+        return lfu
+      },
+    })
+
+    cache.set('a', 'a')
+    cache.set('b', 'b')
+    cache.set('c', 'c')
+    cache.set('pinned', 'p', { pinned: true })
+    cache.set('d', 'd')
+
+    expect(filtered).toEqual([false, false, true])
+    expect(cache.keys().sort()).toEqual(['d', 'pinned'])
+  })
+
+  it('never evicts pinned entries', () => {
+    const errors: CacheError[] = []
+    const cache = new CacheManager<string>({
+      strategy: CacheStrategy.FIFO,
+      maxSize: 2,
+      cleanupInterval: 0,
+      onError: error => errors.push(error),
+    })
+
+    cache.set('pinned', 'p', { pinned: true })
+    cache.set('a', 'a')
+    cache.set('b', 'b')
+
+    expect(cache.keys().sort()).toEqual(['b', 'pinned'])
+    expect(cache.getItem('pinned')?.pinned).toBe(true)
+
+    cache.set('other-pin', 'o', { pinned: true })
+    expect(() => cache.set('c', 'c')).toThrow()
+    expect(errors[0]?.code).toBe(CacheErrorCode.CAPACITY_EXCEEDED)
+    expect(cache.keys().sort()).toEqual(['other-pin', 'pinned'])
+
+    expect(cache.delete('pinned')).toBe(true)
+    cache.set('c', 'c')
+    expect(cache.get('c')).toBe('c')
+  })
+})
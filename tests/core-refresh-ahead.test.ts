@@ -0,0 +1,132 @@
+import type { CacheError } from '../packages/core/src'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheErrorCode, CacheManager } from '../packages/core/src'
+
+describe('cache-core refresh-ahead', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('reloads in the background once past the threshold', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    let version = 0
+    const loader = vi.fn(async (key: string) => `${key}@${++version}`)
+    cache.registerLoader('user:*', loader, { refreshAhead: 0.5 })
+
+    cache.set('user:1', 'initial', { ttl: 1000, tags: ['users'] })
+    vi.advanceTimersByTime(400)
+    expect(cache.get('user:1')).toBe('initial')
+    expect(loader).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(200)
+    expect(cache.get('user:1')).toBe('initial')
+    expect(cache.get('user:1')).toBe('initial')
+    await vi.runAllTimersAsync()
+
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(cache.get('user:1')).toBe('user:1@1')
+    expect(cache.getItem('user:1')).toMatchObject({ ttl: 1000, tags: ['users'], expiresAt: Date.now() + 1000 })
+  })
+
+  it('discards a reload when the entry changes first', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    let resolve!: (value: string) => void
+    cache.registerLoader('k', () => new Promise<string>((r) => {
+      resolve = r
+    }))
+
+    cache.set('k', 'old', 1000)
+    vi.advanceTimersByTime(900)
+    cache.get('k')
+    await Promise.resolve()
+    cache.set('k', 'manual', 1000)
+    resolve('loaded')
+    await Promise.resolve()
+    await Promise.resolve()
+
+    expect(cache.get('k')).toBe('manual')
+  })
+
+  it('reports loader failures and keeps the current value', async () => {
+    const errors: CacheError[] = []
+    const cache = new CacheManager<string>({ cleanupInterval: 0, refreshAhead: 0.5, onError: error => errors.push(error) })
+    const stop = cache.registerLoader(/^cfg/, () => {
+      throw new Error('offline')
+    })
+
+    cache.set('cfg', 'v1', 1000)
+    vi.advanceTimersByTime(600)
+    expect(cache.get('cfg')).toBe('v1')
+    await vi.runAllTimersAsync()
+
+    expect(errors.map(error => error.code)).toEqual([CacheErrorCode.REFRESH_FAILED])
+    expect(errors[0].cause).toMatchObject({ message: 'offline' })
+
+    stop()
+    cache.set('cfg', 'v2', 1000)
+    vi.advanceTimersByTime(600)
+    cache.get('cfg')
+    await vi.runAllTimersAsync()
+    expect(errors).toHaveLength(1)
+    expect(() => cache.registerLoader('x', () => 'x', { refreshAhead: 1 })).toThrow()
+  })
+
+  it('refreshes hot keys from the cleanup timer', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 500, refreshAhead: 0.5 })
+    const loader = vi.fn((key: string) => `${key}!`)
+    cache.registerLoader('**', loader)
+
+    cache.set('hot', 'h', 2000)
+    cache.set('cold', 'c', 2000)
+    cache.get('hot')
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(loader.mock.calls.map(([key]) => key)).toEqual(['hot'])
+    expect(cache.getItem('hot')?.value).toBe('hot!')
+    expect(cache.getItem('cold')?.value).toBe('c')
+
+    cache.destroy()
+  })
+
+  it('refreshes an entry read once exactly once and then lets it expire', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 100, refreshAhead: 0.8 })
+    const loader = vi.fn((key: string) => `${key}!`)
+    cache.registerLoader('k', loader)
+
+    cache.set('k', 'v', 1000)
+    vi.advanceTimersByTime(100)
+    cache.get('k')
+
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(cache.has('k')).toBe(false)
+
+    cache.destroy()
+  })
+
+  it('keeps the hard lifetime cap across reloads', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    cache.registerLoader('k', key => `${key}!`)
+    const start = Date.now()
+
+    cache.set('k', 'v', { ttl: 1000, maxLifetime: 1500 })
+    vi.advanceTimersByTime(900)
+    cache.get('k')
+    await vi.runAllTimersAsync()
+
+    expect(cache.getItem('k')).toMatchObject({ value: 'k!', maxExpiresAt: start + 1500, expiresAt: start + 1500 })
+    vi.advanceTimersByTime(601)
+    expect(cache.has('k')).toBe(false)
+  })
+
+  it('validates refreshAhead passed to the constructor', () => {
+    for (const refreshAhead of [0, 1, 1.5, Number.NaN]) {
+      expect(() => new CacheManager({ refreshAhead, cleanupInterval: 0, onError: () => {} }))
+        .toThrow(expect.objectContaining({ code: CacheErrorCode.INVALID_TTL }))
+    }
+  })
+})
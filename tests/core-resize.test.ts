@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { CacheErrorCode, CacheEventType, CacheManager, CacheStrategy } from '../packages/core/src'
+
+describe('cache-core runtime strategy and size', () => {
+  it('switches strategy keeping entries, metadata and order', () => {
+    const cache = new CacheManager<string>({ maxSize: 3, cleanupInterval: 0 })
+    cache.set('a', 'A', { tags: ['letters'], namespace: 'ns' })
+    cache.set('b', 'B', 1000)
+    cache.set('c', 'C')
+    cache.get('a')
+    cache.get('a')
+    cache.get('c')
+
+    cache.setStrategy(CacheStrategy.LFU)
+
+    // Access counts become LFU frequencies; ties keep the previous LRU order.
+    const snapshot = cache.exportSnapshot()
+    expect(snapshot.strategy).toBe(CacheStrategy.LFU)
+    expect(snapshot.entries.map(entry => entry.key)).toEqual(['b', 'c', 'a'])
+    expect(cache.getItem('a')).toMatchObject({ tags: ['letters'], namespace: 'ns', accessCount: 2 })
+    expect(cache.getItem('b')?.expiresAt).toBeDefined()
+    expect(cache.namespaceKeys('ns')).toEqual(['a'])
+
+    cache.set('d', 'D')
+    expect(cache.keys().sort()).toEqual(['a', 'c', 'd'])
+  })
+
+  it('evicts overflow with EVICT events when shrinking', () => {
+    const cache = new CacheManager<string>({ maxSize: 4, cleanupInterval: 0 })
+    const evicted: Array<[string, unknown]> = []
+    cache.on(CacheEventType.EVICT, event => evicted.push([event.key!, event.metadata?.reason]))
+
+    cache.set('a', 'A', { priority: 1 })
+    cache.set('b', 'B')
+    cache.set('c', 'C')
+    cache.set('d', 'D')
+    cache.get('b')
+
+    cache.resize(2)
+
+    expect(evicted).toEqual([['c', 'priority'], ['d', 'priority']])
+    expect(cache.getStats()).toMatchObject({ size: 2, maxSize: 2, evictions: 2 })
+
+    cache.set('e', 'E')
+    expect(cache.keys().sort()).toEqual(['a', 'e'])
+
+    cache.resize(10)
+    cache.mset([['f', 'F'], ['g', 'G']])
+    expect(cache.size).toBe(4)
+  })
+
+  it('rejects invalid sizes and too many pinned entries', () => {
+    const cache = new CacheManager<string>({ maxSize: 3, cleanupInterval: 0, onError: () => {} })
+    cache.set('a', 'A', { pinned: true })
+    cache.set('b', 'B', { pinned: true })
+
+    expect(() => cache.resize(0)).toThrow(expect.objectContaining({ code: CacheErrorCode.INVALID_OPTION }))
+    expect(() => cache.resize(1)).toThrow(expect.objectContaining({ code: CacheErrorCode.CAPACITY_EXCEEDED }))
+    expect(cache.getStats().maxSize).toBe(3)
+    expect(cache.keys().sort()).toEqual(['a', 'b'])
+  })
+})
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheManager, CacheStrategy, createJSONSerializer, MemoryStorageAdapter } from '../packages/core/src'
+
+describe('cache-core sliding expiration', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it.each([
+    CacheStrategy.LRU,
+    CacheStrategy.LFU,
+    CacheStrategy.FIFO,
+    CacheStrategy.TTL,
+  ])('extends the deadline on every read with %s', (strategy) => {
+    const cache = new CacheManager<string>({ strategy, cleanupInterval: 0 })
+
+    cache.set('session', 'token', { ttl: 1000, sliding: true })
+    cache.set('fixed', 'value', { ttl: 1000 })
+
+    vi.advanceTimersByTime(800)
+    expect(cache.get('session')).toBe('token')
+    expect(cache.get('fixed')).toBe('value')
+
+    vi.advanceTimersByTime(800)
+    expect(cache.getItem('session')?.expiresAt).toBe(Date.now() + 1000)
+    expect(cache.get('fixed')).toBeUndefined()
+
+    vi.advanceTimersByTime(1001)
+    expect(cache.get('session')).toBeUndefined()
+  })
+
+  it('never slides past maxLifetime', () => {
+    const cache = new CacheManager<string>({ defaultSliding: true, cleanupInterval: 0 })
+
+    cache.set('token', 't', { ttl: 1000, maxLifetime: 2500 })
+
+    vi.advanceTimersByTime(900)
+    expect(cache.get('token')).toBe('t')
+    vi.advanceTimersByTime(900)
+    expect(cache.get('token')).toBe('t')
+    expect(cache.getItem('token')?.expiresAt).toBe(cache.getItem('token')?.maxExpiresAt)
+
+    vi.advanceTimersByTime(701)
+    expect(cache.get('token')).toBeUndefined()
+  })
+
+  it('lets per-entry options override defaultSliding', () => {
+    const cache = new CacheManager<string>({ defaultTTL: 1000, defaultSliding: true, cleanupInterval: 0 })
+
+    cache.set('absolute', 'a', { sliding: false })
+
+    vi.advanceTimersByTime(600)
+    expect(cache.get('absolute')).toBe('a')
+    vi.advanceTimersByTime(600)
+    expect(cache.get('absolute')).toBeUndefined()
+  })
+
+  it('persists the slid deadline', () => {
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    const cache = new CacheManager<string>({ storage, cleanupInterval: 0 })
+
+    cache.set('session', 'token', { ttl: 1000, sliding: true })
+    vi.advanceTimersByTime(600)
+    cache.get('session')
+    expect(storage.getItem<string>('session')?.expiresAt).toBe(Date.now() + 1000)
+
+    vi.advanceTimersByTime(600)
+    const restored = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    const item = restored.getItem('session')
+    expect(item?.sliding).toBe(true)
+    expect(item?.ttl).toBe(1000)
+    expect(item?.expiresAt).toBe(Date.now() + 1000)
+  })
+})
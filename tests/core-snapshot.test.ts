@@ -0,0 +1,88 @@
+import type { CacheError, CacheSnapshot } from '../packages/core/src'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheErrorCode, CacheManager, CacheStrategy, SNAPSHOT } from '../packages/core/src'
+
+describe('cache-core snapshots', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('exports a versioned JSON document in eviction order', () => {
+    const cache = new CacheManager<string>({ strategy: CacheStrategy.LRU, cleanupInterval: 0 })
+    cache.set('a', 'A', { ttl: 5000, tags: ['t'], namespace: 'ns', priority: 2 })
+    cache.set('b', 'B')
+    cache.set('c', 'C')
+    cache.get('a')
+
+    const snapshot = JSON.parse(JSON.stringify(cache.exportSnapshot())) as CacheSnapshot<string>
+
+    expect(snapshot.format).toBe(SNAPSHOT.FORMAT)
+    expect(snapshot.version).toBe(SNAPSHOT.VERSION)
+    expect(snapshot.strategy).toBe(CacheStrategy.LRU)
+    expect(snapshot.entries.map(entry => entry.key)).toEqual(['b', 'c', 'a'])
+    expect(snapshot.entries[2]).toMatchObject({
+      value: 'A',
+      accessCount: 1,
+      expiresAt: Date.now() + 5000,
+      tags: ['t'],
+      namespace: 'ns',
+      priority: 2,
+    })
+  })
+
+  it.each([
+    CacheStrategy.LRU,
+    CacheStrategy.LFU,
+    CacheStrategy.FIFO,
+    CacheStrategy.TTL,
+  ])('round-trips entries, counters and ordering with %s', (strategy) => {
+    const source = new CacheManager<string>({ strategy, defaultTTL: 60_000, cleanupInterval: 0 })
+    source.set('x', '1', 10_000)
+    source.set('y', '2', 20_000)
+    source.set('z', '3', 30_000)
+    source.get('x')
+    source.get('x')
+    source.get('z')
+
+    const snapshot = source.exportSnapshot()
+    const target = new CacheManager<string>({ strategy, defaultTTL: 60_000, cleanupInterval: 0 })
+    expect(target.importSnapshot(snapshot)).toEqual({ imported: 3, skipped: 0 })
+
+    expect(target.exportSnapshot().entries).toEqual(snapshot.entries)
+  })
+
+  it('replaces or merges and rebases timestamps', () => {
+    const source = new CacheManager<string>({ cleanupInterval: 0 })
+    source.set('session', 's', 1000)
+    source.set('config', 'c')
+    const snapshot = source.exportSnapshot()
+
+    vi.advanceTimersByTime(5000)
+
+    const merged = new CacheManager<string>({ cleanupInterval: 0 })
+    merged.set('local', 'l')
+    expect(merged.importSnapshot(snapshot)).toEqual({ imported: 1, skipped: 1 })
+    expect(merged.keys().sort()).toEqual(['config', 'local'])
+
+    const replaced = new CacheManager<string>({ cleanupInterval: 0 })
+    replaced.set('local', 'l')
+    expect(replaced.importSnapshot(snapshot, { mode: 'replace', rebaseTimestamps: true })).toEqual({ imported: 2, skipped: 0 })
+    expect(replaced.keys().sort()).toEqual(['config', 'session'])
+    expect(replaced.getItem('session')?.expiresAt).toBe(Date.now() + 1000)
+    expect(replaced.getItem('config')?.createdAt).toBe(snapshot.entries[1].createdAt + 5000)
+  })
+
+  it('rejects unknown formats and versions', () => {
+    const errors: CacheError[] = []
+    const cache = new CacheManager<string>({ cleanupInterval: 0, onError: error => errors.push(error) })
+    const snapshot = cache.exportSnapshot()
+
+    expect(() => cache.importSnapshot({ ...snapshot, version: SNAPSHOT.VERSION + 1 })).toThrow()
+    expect(() => cache.importSnapshot({ ...snapshot, format: 'other' })).toThrow()
+    expect(errors.map(error => error.code)).toEqual([CacheErrorCode.INVALID_SNAPSHOT, CacheErrorCode.INVALID_SNAPSHOT])
+  })
+})
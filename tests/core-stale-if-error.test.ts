@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheManager } from '../packages/core/src'
+
+function failWith(message: string) {
+  return async (): Promise<never> => {
+    throw new Error(message)
+  }
+}
+
+describe('cache-core stale-if-error', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('falls back to an expired value when the fetcher fails', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    await cache.query.fetch({ key: 'user', fetcher: async () => 'Ada', ttl: 1000, staleIfError: 5000 })
+    const writtenAt = Date.now()
+
+    vi.advanceTimersByTime(1500)
+    expect(cache.get('user')).toBeUndefined()
+
+    const result = await cache.query.fetch({ key: 'user', fetcher: failWith('offline') })
+    expect(result).toMatchObject({ data: 'Ada', fromCache: true, stale: true, updatedAt: writtenAt })
+    expect(result.error?.message).toBe('offline')
+
+    const fresh = await cache.query.fetch({ key: 'user', fetcher: async () => 'Grace', ttl: 1000, staleIfError: 5000 })
+    expect(fresh).toMatchObject({ data: 'Grace', stale: false })
+    expect(fresh.error).toBeUndefined()
+  })
+
+  it('drops shadows after the window and on delete', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 500, staleIfError: 1000 })
+    const failing = failWith('down')
+
+    cache.set('a', 'A', 1000)
+    cache.set('b', 'B', 1000)
+    cache.set('plain', 'P', { ttl: 1000, staleIfError: 0 })
+    vi.advanceTimersByTime(1000)
+
+    expect(cache.has('a')).toBe(false)
+    expect(cache.getStaleItem('a')?.value).toBe('A')
+    expect(cache.getStaleItem('plain')).toBeUndefined()
+    await expect(cache.query.fetch({ key: 'plain', fetcher: failing })).rejects.toThrow('down')
+
+    cache.delete('b')
+    expect(cache.getStaleItem('b')).toBeUndefined()
+
+    vi.advanceTimersByTime(1000)
+    expect(cache.getStaleItem('a')).toBeUndefined()
+    await expect(cache.query.fetch({ key: 'a', fetcher: failing })).rejects.toThrow('down')
+    cache.destroy()
+  })
+
+  it('serves the live entry when a forced revalidation fails', async () => {
+    const cache = new CacheManager<number>({ cleanupInterval: 0 })
+    cache.set('n', 1, { ttl: 1000, staleIfError: 1000 })
+
+    const result = await cache.query.revalidate({ key: 'n', fetcher: failWith('nope') })
+    expect(result).toMatchObject({ data: 1, stale: true })
+    expect(result.error).toBeInstanceOf(Error)
+
+    cache.set('m', 1, 1000)
+    await expect(cache.query.revalidate({ key: 'm', fetcher: failWith('nope') })).rejects.toThrow()
+  })
+})
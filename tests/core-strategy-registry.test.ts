@@ -0,0 +1,142 @@
+import type { CacheItem, ICacheStrategy, StrategyContext } from '../packages/core/src'
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  CacheErrorCode,
+  CacheEventType,
+  CacheManager,
+  CacheStrategy,
+  FIFOCache,
+  LFUCache,
+  LRUCache,
+  registerStrategy,
+  TTLCache,
+  unregisterStrategy,
+} from '../packages/core/src'
+
+/**
+ * Evicts the newest entry when full and reports it from `set` only.
+ */
+class NewestOutCache<T> implements ICacheStrategy<T> {
+  private items = new Map<string, CacheItem<T>>()
+
+  constructor(private maxSize: number) {}
+
+  get size(): number {
+    return this.items.size
+  }
+
+  get(key: string): T | undefined {
+    return this.items.get(key)?.value
+  }
+
+  set(key: string, value: T): CacheItem<T> | undefined {
+    let evicted: CacheItem<T> | undefined
+    if (!this.items.has(key) && this.items.size >= this.maxSize) {
+      evicted = [...this.items.values()].pop()!
+      this.items.delete(evicted.key)
+    }
+    this.items.set(key, { key, value, createdAt: 0, lastAccessedAt: 0, accessCount: 0 })
+    return evicted
+  }
+
+  delete(key: string): boolean {
+    return this.items.delete(key)
+  }
+
+  has(key: string): boolean {
+    return this.items.has(key)
+  }
+
+  clear(): void {
+    this.items.clear()
+  }
+
+  cleanup(): number {
+    return 0
+  }
+
+  getItem(key: string): CacheItem<T> | undefined {
+    return this.items.get(key)
+  }
+
+  peek(key: string): T | undefined {
+    return this.get(key)
+  }
+
+  peekItem(key: string): CacheItem<T> | undefined {
+    return this.getItem(key)
+  }
+
+  keys(): string[] {
+    return [...this.items.keys()]
+  }
+
+  values(): T[] {
+    return [...this.items.values()].map(item => item.value)
+  }
+
+  entries(): Array<[string, T]> {
+    return [...this.items].map(([key, item]) => [key, item.value])
+  }
+}
+
+describe('cache-core strategy registry', () => {
+  afterEach(() => {
+    unregisterStrategy('newest-out')
+  })
+
+  it('reports evictions through the set return value', () => {
+    const lru = new LRUCache<string>(1)
+    lru.set('a', 'A')
+    expect(lru.set('b', 'B')).toMatchObject({ key: 'a', value: 'A' })
+    expect(new LFUCache<string>(1).set('a', 'A')).toBeUndefined()
+    expect(new FIFOCache<string>(1).set('a', 'A')).toBeUndefined()
+    expect(new TTLCache<string>(1000, 0).set('a', 'A')).toBeUndefined()
+
+    const cache = new CacheManager<string>({ maxSize: 2, cleanupInterval: 0, strategy: ({ maxSize }) => new NewestOutCache(maxSize) })
+    const evicted: string[] = []
+    cache.on(CacheEventType.EVICT, event => evicted.push(event.key!))
+
+    cache.set('a', 'A', { tags: ['t'] })
+    cache.set('b', 'B', { tags: ['t'] })
+    cache.set('c', 'C')
+
+    expect(evicted).toEqual(['b'])
+    expect(cache.keys()).toEqual(['a', 'c'])
+    expect(cache.invalidateByTag('t')).toBe(1)
+    expect(cache.exportSnapshot().strategy).toBe('custom')
+  })
+
+  it('builds registered strategies by name', () => {
+    const contexts: StrategyContext[] = []
+    registerStrategy('newest-out', (context) => {
+      contexts.push(context)
+      return new NewestOutCache(context.maxSize)
+    })
+
+    const cache = new CacheManager<string>({ strategy: 'newest-out', maxSize: 5, defaultTTL: 1000, cleanupInterval: 0 })
+    cache.set('a', 'A')
+    expect(contexts).toEqual([{ maxSize: 5, defaultTTL: 1000, cleanupInterval: 0, clock: cache.clock }])
+    expect(cache.exportSnapshot().strategy).toBe('newest-out')
+
+    cache.setStrategy(CacheStrategy.LRU)
+    cache.setStrategy('newest-out')
+    expect(contexts).toHaveLength(2)
+    expect(cache.get('a')).toBe('A')
+  })
+
+  it('rejects unknown and built-in names', () => {
+    expect(() => registerStrategy(CacheStrategy.LRU, ({ maxSize }) => new NewestOutCache(maxSize))).toThrow()
+    expect(() => registerStrategy('', ({ maxSize }) => new NewestOutCache(maxSize))).toThrow()
+    expect(unregisterStrategy(CacheStrategy.TTL)).toBe(false)
+
+    expect(() => new CacheManager({ strategy: 'missing', onError: () => {} }))
+      .toThrow(expect.objectContaining({ code: CacheErrorCode.INVALID_OPTION }))
+
+    const cache = new CacheManager<string>({ cleanupInterval: 0, onError: () => {} })
+    cache.set('a', 'A')
+    expect(() => cache.setStrategy('missing')).toThrow()
+    expect(cache.exportSnapshot().strategy).toBe(CacheStrategy.LRU)
+    expect(cache.get('a')).toBe('A')
+  })
+})
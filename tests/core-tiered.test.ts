@@ -0,0 +1,159 @@
+import type { CacheItem, IStorageAdapter } from '../packages/core/src'
+import { describe, expect, it } from 'vitest'
+import { CacheStrategy, createJSONSerializer, MemoryStorageAdapter, TieredCacheManager } from '../packages/core/src'
+
+/**
+ * Reads L2 immediately but holds the result until `release` is called.
+ */
+function createDelayedAdapter(): IStorageAdapter & { release: () => void } {
+  const data = new Map<string, CacheItem<any>>()
+  const waiting: Array<() => void> = []
+
+  return {
+    async getItem<T>(key: string) {
+      const item = (data.get(key) as CacheItem<T> | undefined) ?? null
+      await new Promise<void>(resolve => waiting.push(resolve))
+      return item
+    },
+    async setItem<T>(key: string, item: CacheItem<T>) {
+      data.set(key, item)
+    },
+    async removeItem(key: string) {
+      data.delete(key)
+    },
+    async clear() {
+      data.clear()
+    },
+    async keys() {
+      return Array.from(data.keys())
+    },
+    isAvailable: () => true,
+    release() {
+      for (const resolve of waiting.splice(0)) {
+        resolve()
+      }
+    },
+  }
+}
+
+function createTiered(maxSize = 2) {
+  const l2 = new MemoryStorageAdapter(createJSONSerializer())
+  const cache = new TieredCacheManager<string>({
+    l1: { strategy: CacheStrategy.LRU, maxSize, cleanupInterval: 0 },
+    l2,
+  })
+  return { cache, l2 }
+}
+
+describe('cache-core tiered cache', () => {
+  it('demotes L1 evictions to L2 and promotes them back on read', async () => {
+    const { cache, l2 } = createTiered()
+
+    // One priority class, so eviction stays in LRU order.
+    await cache.set('a', 'A', { tags: ['letters'], namespace: 'abc', priority: 3 })
+    await cache.set('b', 'B', { priority: 3 })
+    await cache.set('c', 'C', { priority: 3 })
+
+    expect(cache.l1.has('a')).toBe(false)
+    expect(l2.getItem<string>('a')?.tags).toEqual(['letters'])
+    expect(l2.getItem<string>('a')?.priority).toBe(3)
+
+    expect(await cache.get('a')).toBe('A')
+    expect(cache.l1.getItem('a')?.namespace).toBe('abc')
+    expect(cache.l1.getItem('a')?.priority).toBe(3)
+    // 'b' was least recently used and made room for the promoted entry.
+    expect(l2.keys()).toEqual(['b'])
+
+    const stats = await cache.getStats()
+    expect(stats.tiers?.promotions).toBe(1)
+    expect(stats.tiers?.demotions).toBe(2)
+    expect(stats.tiers?.l2.hits).toBe(1)
+    expect(stats.tiers?.l1.size).toBe(2)
+    expect(stats.tiers?.l2.size).toBe(1)
+    expect(stats.size).toBe(3)
+  })
+
+  it('invalidates tags and namespaces across both tiers', async () => {
+    const { cache, l2 } = createTiered()
+
+    await cache.set('post:1', 'p1', { tags: ['post'] })
+    await cache.set('post:2', 'p2', { tags: ['post'], namespace: 'cms' })
+    await cache.set('user:1', 'u1', { namespace: 'cms' })
+
+    expect(l2.keys()).toEqual(['post:1'])
+
+    expect(await cache.invalidateByTag('post')).toBe(2)
+    expect(await cache.get('post:1')).toBeUndefined()
+    expect(await cache.get('post:2')).toBeUndefined()
+
+    expect(await cache.invalidateByNamespace('cms')).toBe(1)
+    expect(await cache.has('user:1')).toBe(false)
+  })
+
+  it('applies patterns and hierarchical tags to L2', async () => {
+    const { cache, l2 } = createTiered()
+
+    await cache.set('user:1:profile', 'p1', { tags: ['org:42:users'] })
+    await cache.set('user:2:profile', 'p2', { tags: ['org:42'] })
+    await cache.set('post:1', 'post')
+    await cache.set('post:2', 'post')
+
+    expect(l2.keys().sort()).toEqual(['user:1:profile', 'user:2:profile'])
+    expect(await cache.invalidateByTag('org:42', { descendants: true })).toBe(2)
+    expect(await cache.invalidateByPattern('post:*')).toBe(2)
+    expect((await cache.getStats()).size).toBe(0)
+  })
+
+  it('writes through to L2 when configured', async () => {
+    const l2 = new MemoryStorageAdapter(createJSONSerializer())
+    const cache = new TieredCacheManager<string>({ l1: { maxSize: 10, cleanupInterval: 0 }, l2, writeThrough: true })
+
+    await cache.set('k', 'v', { tags: ['t'] })
+    expect(l2.getItem<string>('k')?.value).toBe('v')
+
+    expect(await cache.delete('k')).toBe(true)
+    expect(l2.keys()).toEqual([])
+  })
+
+  it('keeps dependency edges across tiers and drops dependents from L2', async () => {
+    const { cache, l2 } = createTiered(3)
+
+    await cache.set('a', 'A')
+    await cache.set('b', 'B', { dependsOn: ['a'] })
+    await cache.get('a')
+    await cache.set('x', 'X')
+    await cache.set('y', 'Y')
+
+    expect(l2.getItem('b')?.dependencies).toEqual(['a'])
+    expect(await cache.get('b')).toBe('B')
+    expect(cache.l1.getItem('b')?.dependencies).toEqual(['a'])
+
+    // Promoting 'b' pushed its parent down to L2; deleting it there still cascades.
+    expect(cache.l1.has('a')).toBe(false)
+    await cache.delete('a')
+    expect(cache.l1.has('b')).toBe(false)
+    expect(l2.keys()).toEqual([])
+  })
+
+  it('does not promote L2 reads superseded by a write or delete', async () => {
+    const l2 = createDelayedAdapter()
+    const cache = new TieredCacheManager<string>({ l1: { maxSize: 10, cleanupInterval: 0 }, l2 })
+    await l2.setItem('a', { key: 'a', value: 'old', createdAt: 0, lastAccessedAt: 0, accessCount: 0 })
+    await l2.setItem('b', { key: 'b', value: 'old', createdAt: 0, lastAccessedAt: 0, accessCount: 0 })
+
+    const readA = cache.get('a')
+    const readB = cache.get('b')
+    await cache.set('a', 'new')
+    const deleted = cache.delete('b')
+    l2.release()
+    await Promise.all([readA, readB])
+    l2.release()
+    await deleted
+
+    expect(cache.l1.get('a')).toBe('new')
+    expect(cache.l1.has('b')).toBe(false)
+    const readAgain = cache.get('b')
+    l2.release()
+    expect(await readAgain).toBeUndefined()
+  })
+})
@@ -0,0 +1,219 @@
+import type { CacheError, CacheItem, CachePlugin, IStorageAdapter } from '../packages/core/src'
+import { describe, expect, it } from 'vitest'
+import { CacheErrorCode, CacheEventType, CacheManager, CacheStrategy, createJSONSerializer, MemoryStorageAdapter } from '../packages/core/src'
+
+function countingStorage() {
+  const inner = new MemoryStorageAdapter(createJSONSerializer())
+  const writes: string[] = []
+  const storage: IStorageAdapter = {
+    getItem: <V>(key: string) => inner.getItem<V>(key),
+    setItem: <V>(key: string, item: CacheItem<V>) => {
+      writes.push(`set:${key}`)
+      return inner.setItem(key, item)
+    },
+    removeItem: (key: string) => {
+      writes.push(`remove:${key}`)
+      return inner.removeItem(key)
+    },
+    clear: () => inner.clear(),
+    keys: () => inner.keys(),
+    isAvailable: () => true,
+  }
+  return { storage, writes, inner }
+}
+
+describe('cache-core transactions', () => {
+  it('applies staged writes on commit and fires events afterwards', () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    cache.set('stale', 'x')
+
+    const events: string[] = []
+    cache.on(CacheEventType.SET, event => events.push(`set:${event.key}`))
+    cache.on(CacheEventType.DELETE, event => events.push(`delete:${event.key}`))
+
+    const result = cache.transaction((tx) => {
+      tx.set('a', 'A', { tags: ['t'] })
+      tx.set('b', 'B', 1000)
+      expect(tx.delete('stale')).toBe(true)
+
+      expect(tx.get('a')).toBe('A')
+      expect(tx.has('stale')).toBe(false)
+      expect(cache.has('a')).toBe(false)
+      expect(events).toEqual([])
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(events).toEqual(['set:a', 'set:b', 'delete:stale'])
+    expect(cache.getItem('a')?.tags).toEqual(['t'])
+    expect(cache.getItem('b')?.ttl).toBe(1000)
+    expect(cache.has('stale')).toBe(false)
+  })
+
+  it('discards staged writes when the callback throws', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+
+    expect(() => cache.transaction((tx) => {
+      tx.set('a', 'A')
+      throw new Error('abort')
+    })).toThrow('abort')
+    expect(cache.has('a')).toBe(false)
+
+    await expect(cache.transaction(async (tx) => {
+      tx.set('b', 'B')
+      throw new Error('async abort')
+    })).rejects.toThrow('async abort')
+    expect(cache.has('b')).toBe(false)
+
+    expect(await cache.transaction(async (tx) => {
+      tx.set('c', 'C')
+      return 1
+    })).toBe(1)
+    expect(cache.get('c')).toBe('C')
+  })
+
+  it('rolls back every change, evictions included, when a hook throws', () => {
+    const errors: CacheError[] = []
+    const evicted: string[] = []
+    const failing: CachePlugin<string> = {
+      name: 'reject-bad',
+      beforeSet: (key) => {
+        if (key === 'bad') {
+          throw new Error('rejected')
+        }
+      },
+    }
+    const cache = new CacheManager<string>({
+      strategy: CacheStrategy.FIFO,
+      maxSize: 2,
+      cleanupInterval: 0,
+      plugins: [failing],
+      onError: error => errors.push(error),
+      onEvict: key => evicted.push(key),
+    })
+
+    cache.set('keep', 'old', { tags: ['t'], ttl: 5000 })
+    cache.set('other', 'o')
+    const before = cache.getItem('keep')
+
+    const events: string[] = []
+    cache.on(CacheEventType.SET, event => events.push(`set:${event.key}`))
+    cache.on(CacheEventType.EVICT, event => events.push(`evict:${event.key}`))
+
+    expect(() => cache.transaction((tx) => {
+      tx.set('keep', 'new')
+      tx.set('fresh', 'f')
+      tx.delete('other')
+      tx.set('bad', 'b')
+    })).toThrow()
+
+    expect(errors[0]?.code).toBe(CacheErrorCode.TRANSACTION_FAILED)
+    expect(events).toEqual([])
+    expect(evicted).toEqual([])
+    expect(cache.keys().sort()).toEqual(['keep', 'other'])
+    expect(cache.get('keep')).toBe('old')
+    expect(cache.getItem('keep')?.tags).toEqual(['t'])
+    expect(cache.getItem('keep')?.expiresAt).toBe(before?.expiresAt)
+    expect(cache.invalidateByTag('t')).toBe(1)
+    expect(cache.getStats().evictions).toBe(0)
+  })
+
+  it('keeps access counts and eviction order of rolled-back entries', () => {
+    const failing: CachePlugin<string> = {
+      name: 'reject-bad',
+      beforeSet: (key) => {
+        if (key === 'bad') {
+          throw new Error('rejected')
+        }
+      },
+    }
+    const cache = new CacheManager<string>({ maxSize: 3, cleanupInterval: 0, plugins: [failing], onError: () => {} })
+    cache.set('a', 'A')
+    cache.set('b', 'B')
+    cache.set('c', 'C')
+    cache.get('b')
+    cache.get('a')
+    const before = cache.getItem('b')
+
+    expect(() => cache.transaction((tx) => {
+      tx.set('b', 'changed')
+      tx.set('bad', 'x')
+    })).toThrow()
+
+    expect(cache.getItem('b')).toMatchObject({ value: 'B', createdAt: before?.createdAt, accessCount: 1 })
+    expect(cache.exportSnapshot().entries.map(entry => entry.key)).toEqual(['c', 'b', 'a'])
+  })
+
+  it('puts several rolled-back keys back in their slots', () => {
+    const failing: CachePlugin<string> = {
+      name: 'reject-bad',
+      beforeSet: (key) => {
+        if (key === 'bad') {
+          throw new Error('rejected')
+        }
+      },
+    }
+
+    for (const strategy of [CacheStrategy.LRU, CacheStrategy.LFU, CacheStrategy.FIFO]) {
+      const cache = new CacheManager<string>({ strategy, maxSize: 4, cleanupInterval: 0, plugins: [failing], onError: () => {} })
+      cache.mset([['a', 'A'], ['b', 'B'], ['c', 'C'], ['d', 'D']])
+      const order = cache.exportSnapshot().entries.map(entry => entry.key)
+
+      // `e` and `f` evict from the front; `bad` rolls everything back.
+      expect(() => cache.transaction((tx) => {
+        tx.delete('c')
+        tx.set('b', 'changed')
+        tx.set('e', 'E')
+        tx.set('f', 'F')
+        tx.set('bad', 'x')
+      })).toThrow()
+
+      expect(cache.exportSnapshot().entries.map(entry => entry.key)).toEqual(order)
+      cache.destroy()
+    }
+  })
+
+  it('writes persistence once per touched key after commit', () => {
+    const { storage, writes, inner } = countingStorage()
+    const cache = new CacheManager<string>({ storage, cleanupInterval: 0 })
+    cache.set('gone', 'g')
+    writes.length = 0
+
+    cache.transaction((tx) => {
+      tx.set('a', '1')
+      tx.set('a', '2')
+      tx.set('b', 'B')
+      tx.delete('gone')
+    })
+
+    expect(writes).toEqual(['set:a', 'set:b', 'remove:gone'])
+    expect(inner.getItem<string>('a')?.value).toBe('2')
+
+    const other = countingStorage()
+    const failing = new CacheManager<string>({
+      storage: other.storage,
+      cleanupInterval: 0,
+      maxEntrySize: 100,
+      onError: () => {},
+    })
+    expect(() => failing.transaction((tx) => {
+      tx.set('small', 's')
+      tx.set('huge', 'x'.repeat(1000))
+    })).toThrow()
+    expect(other.writes).toEqual([])
+    expect(failing.has('small')).toBe(false)
+  })
+
+  it('rejects writes after the transaction has finished', () => {
+    const errors: CacheError[] = []
+    const cache = new CacheManager<string>({ cleanupInterval: 0, onError: error => errors.push(error) })
+
+    let leaked: Parameters<Parameters<typeof cache.transaction>[0]>[0] | undefined
+    cache.transaction((tx) => {
+      leaked = tx
+    })
+
+    expect(() => leaked!.set('late', 'x')).toThrow()
+    expect(errors[0]?.code).toBe(CacheErrorCode.TRANSACTION_FAILED)
+  })
+})
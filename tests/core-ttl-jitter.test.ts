@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheManager, createJSONSerializer, MemoryStorageAdapter } from '../packages/core/src'
+
+describe('cache-core ttl jitter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('spreads batch writes by an absolute or relative amount', () => {
+    const random = vi.spyOn(Math, 'random')
+    const cache = new CacheManager<number>({ cleanupInterval: 0 })
+    const now = Date.now()
+
+    random.mockReturnValueOnce(0).mockReturnValueOnce(0.5).mockReturnValueOnce(0.999)
+    cache.mset([['a', 1], ['b', 2], ['c', 3]], { ttl: 1000, ttlJitter: 200 })
+    expect(['a', 'b', 'c'].map(key => cache.getItem(key)?.expiresAt)).toEqual([now + 1000, now + 1100, now + 1199])
+
+    random.mockReturnValueOnce(0.5)
+    cache.set('d', 4, { ttl: 1000, ttlJitter: 0.1 })
+    expect(cache.getItem('d')).toMatchObject({ ttl: 1050, expiresAt: now + 1050 })
+
+    expect(() => cache.set('e', 5, { ttl: 1000, ttlJitter: -1 })).toThrow()
+  })
+
+  it('applies the default jitter unless disabled per entry', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+    const cache = new CacheManager<number>({ cleanupInterval: 0, defaultTTL: 1000, ttlJitter: 0.2 })
+    const now = Date.now()
+
+    cache.set('a', 1)
+    cache.set('b', 2, { ttlJitter: 0 })
+    cache.set('c', 3, { ttl: 0 })
+    expect(cache.getItem('a')?.expiresAt).toBe(now + 1100)
+    expect(cache.getItem('b')?.expiresAt).toBe(now + 1000)
+    expect(cache.getItem('c')?.expiresAt).toBeUndefined()
+  })
+
+  it('persists the jittered expiry without spreading it again', () => {
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.5)
+    const storage = new MemoryStorageAdapter(createJSONSerializer())
+    const cache = new CacheManager<string>({ storage, cleanupInterval: 0, ttlJitter: 400 })
+    cache.set('k', 'v', 1000)
+    const expiresAt = cache.getItem('k')?.expiresAt
+    expect(expiresAt).toBe(Date.now() + 1200)
+
+    random.mockReturnValue(0.9)
+    const restored = new CacheManager<string>({ storage, cleanupInterval: 0, ttlJitter: 400 })
+    expect(restored.getItem('k')?.expiresAt).toBe(expiresAt)
+  })
+})
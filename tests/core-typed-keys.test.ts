@@ -0,0 +1,82 @@
+import { describe, expect, expectTypeOf, it } from 'vitest'
+import { CacheManager, defineCacheKey, defineCacheSchema } from '../packages/core/src'
+
+interface User {
+  id: number
+  name: string
+}
+
+interface Settings {
+  theme: 'light' | 'dark'
+}
+
+describe('cache-core typed keys', () => {
+  it('builds keys from templates and types get/set', () => {
+    const userKey = defineCacheKey<User>()('org:{org}:user:{id}')
+    const cache = new CacheManager<unknown>({ cleanupInterval: 0 })
+    const key = userKey({ org: 1, id: 7 })
+
+    expect(key.key).toBe('org:1:user:7')
+    expect(`${key}`).toBe('org:1:user:7')
+    expect(userKey.params).toEqual(['org', 'id'])
+    expectTypeOf(userKey.template).toEqualTypeOf<'org:{org}:user:{id}'>()
+
+    cache.set(key, { id: 7, name: 'Ada' })
+    const user = cache.get(key)
+    expectTypeOf(user).toEqualTypeOf<User | undefined>()
+    expect(user?.name).toBe('Ada')
+    expect(cache.get('org:1:user:7')).toEqual({ id: 7, name: 'Ada' })
+    expect(cache.has(userKey({ org: 1, id: 7 }))).toBe(true)
+    expect(cache.delete(key)).toBe(true)
+
+    // @ts-expect-error missing template parameter
+    expect(() => userKey({ org: 1 })).toThrow()
+    expect(() => userKey({ org: 'a:b', id: 1 })).toThrow()
+  })
+
+  it('applies definition defaults under explicit options', async () => {
+    const sessionKey = defineCacheKey<string>()('session:{id}', { ttl: 1000, tags: ['sessions'], namespace: 'auth' })
+    const cache = new CacheManager<unknown>({ cleanupInterval: 0 })
+
+    cache.set(sessionKey({ id: 'a' }), 'token-a')
+    cache.set(sessionKey({ id: 'b' }), 'token-b', 5000)
+    const loaded = await cache.getOrSet(sessionKey({ id: 'c' }), () => 'token-c')
+    expectTypeOf(loaded).toEqualTypeOf<string>()
+
+    expect(cache.getItem(sessionKey({ id: 'a' }))).toMatchObject({ ttl: 1000, tags: ['sessions'], namespace: 'auth' })
+    expect(cache.getItem(sessionKey({ id: 'b' }))?.ttl).toBe(5000)
+    expect(cache.getItem(sessionKey({ id: 'c' }))?.tags).toEqual(['sessions'])
+    expect(cache.invalidateByTag('sessions')).toBe(3)
+  })
+
+  it('invalidates and parses by template parameters', () => {
+    const userKey = defineCacheKey<User>()('org:{org}:user:{id}')
+    const cache = new CacheManager<unknown>({ cleanupInterval: 0 })
+    cache.set(userKey({ org: 1, id: 1 }), { id: 1, name: 'a' })
+    cache.set(userKey({ org: 1, id: 2 }), { id: 2, name: 'b' })
+    cache.set(userKey({ org: 2, id: 1 }), { id: 1, name: 'c' })
+
+    expect(userKey.pattern({ org: 1 })).toBe('org:1:user:*')
+    expect(cache.invalidateByPattern(userKey.pattern({ org: 1 }))).toBe(2)
+    expect(cache.invalidateByPattern(userKey.pattern({ id: 1 }))).toBe(1)
+
+    expect(userKey.match('org:3:user:9')).toEqual({ org: '3', id: '9' })
+    expect(userKey.match('org:3:user:9:extra')).toBeUndefined()
+  })
+
+  it('defines a schema of templates and value types', () => {
+    const keys = defineCacheSchema<{ 'user:{id}': User, 'settings': Settings }>({
+      'user:{id}': { ttl: 60_000 },
+      'settings': { pinned: true },
+    })
+    const cache = new CacheManager<unknown>({ cleanupInterval: 0 })
+
+    cache.set(keys.settings(), { theme: 'dark' })
+    cache.set(keys['user:{id}']({ id: 1 }), { id: 1, name: 'Ada' })
+
+    expectTypeOf(cache.get(keys.settings())).toEqualTypeOf<Settings | undefined>()
+    expect(cache.get(keys.settings())?.theme).toBe('dark')
+    expect(cache.getItem('settings')?.pinned).toBe(true)
+    expect(cache.getItem('user:1')?.ttl).toBe(60_000)
+  })
+})
@@ -0,0 +1,92 @@
+import type { CacheChange } from '../packages/core/src'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CacheManager, CacheStrategy, defineCacheKey } from '../packages/core/src'
+
+describe('cache-core watch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('batches changes into one notification per key', async () => {
+    const cache = new CacheManager<number>({ cleanupInterval: 0 })
+    const changes: CacheChange<number>[] = []
+    cache.watch('counter:*', change => changes.push(change))
+
+    cache.mset([['counter:a', 1], ['counter:b', 1], ['other', 1]])
+    cache.mset([['counter:a', 2]])
+    cache.set('counter:a', 3)
+    expect(changes).toEqual([])
+
+    await Promise.resolve()
+    expect(changes).toEqual([
+      { key: 'counter:b', type: 'set', value: 1 },
+      { key: 'counter:a', type: 'set', value: 3 },
+    ])
+  })
+
+  it('reports deletes, expirations, evictions and clears', async () => {
+    const cache = new CacheManager<string>({ strategy: CacheStrategy.FIFO, maxSize: 2, cleanupInterval: 0 })
+    const changes: string[] = []
+    cache.watch(/.*/, change => changes.push(`${change.type}:${change.key}:${change.value}`))
+
+    cache.set('a', 'A', 100)
+    cache.set('b', 'B')
+    await Promise.resolve()
+    changes.length = 0
+
+    cache.delete('b')
+    vi.advanceTimersByTime(101)
+    cache.get('a')
+    cache.set('c', 'C')
+    cache.set('d', 'D')
+    cache.set('e', 'E')
+    await Promise.resolve()
+    expect(changes).toEqual(['delete:b:B', 'expire:a:A', 'set:d:D', 'evict:c:C', 'set:e:E'])
+
+    changes.length = 0
+    cache.clear()
+    await Promise.resolve()
+    expect(changes.sort()).toEqual(['delete:d:D', 'delete:e:E'])
+  })
+
+  it('supports immediate delivery, typed keys and unsubscribing', async () => {
+    const cache = new CacheManager<unknown>({ cleanupInterval: 0 })
+    const userKey = defineCacheKey<{ name: string }>()('user:{id}')
+    cache.set(userKey({ id: 1 }), { name: 'Ada' })
+
+    const names: Array<string | undefined> = []
+    const stop = cache.watch(userKey({ id: 1 }), change => names.push(change.value?.name), { immediate: true })
+    expect(names).toEqual(['Ada'])
+
+    cache.set(userKey({ id: 1 }), { name: 'Grace' })
+    cache.set(userKey({ id: 2 }), { name: 'Alan' })
+    await Promise.resolve()
+    expect(names).toEqual(['Ada', 'Grace'])
+
+    stop()
+    cache.set(userKey({ id: 1 }), { name: 'Linus' })
+    await Promise.resolve()
+    expect(names).toEqual(['Ada', 'Grace'])
+  })
+
+  it('notifies only after a transaction commits', async () => {
+    const cache = new CacheManager<string>({ cleanupInterval: 0 })
+    const keys: string[] = []
+    cache.watch('**', change => keys.push(change.key))
+
+    expect(() => cache.transaction((tx) => {
+      tx.set('a', 'A')
+      throw new Error('abort')
+    })).toThrow()
+    cache.transaction((tx) => {
+      tx.set('b', 'B')
+    })
+
+    await Promise.resolve()
+    expect(keys).toEqual(['b'])
+  })
+})